@@ -45,7 +45,7 @@ const UserFactory: Factory<User> = new Factory<User>((faker) => ({
 }));
 
 const PostFactory: Factory<Post> = new Factory<Post>((faker) => ({
-    author: faker.use(() => UserFactory.build()),
+    author: faker.parent(UserFactory) ?? faker.use(() => UserFactory.build()),
     content: faker.lorem.paragraphs(2),
     id: faker.string.uuid(),
     relatedPosts: faker.use(() => PostFactory.batch(2)),
@@ -56,6 +56,14 @@ const user = UserFactory.build();
 console.log('User:', user.name);
 console.log('Posts by user:', user.posts.length);
 console.log('Favorite post:', user.favoritePost?.title);
+console.log(
+    'Posts point back to the user:',
+    user.posts.every((post: Post) => post.author === user),
+);
+console.log(
+    'Related posts point back to the user, not to the post above them:',
+    user.posts[0].relatedPosts.every((post: Post) => post.author === user),
+);
 
 const DepartmentFactory: Factory<Department> = new Factory<Department>(
     (faker) => ({
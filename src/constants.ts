@@ -5,6 +5,27 @@
  */
 export const DEFAULT_MAX_DEPTH = 5;
 
+/**
+ * Default number of regeneration attempts for a unique constraint before giving up.
+ */
+export const DEFAULT_UNIQUE_MAX_RETRIES = 10;
+
+/**
+ * Format version written to fixture files.
+ * Version 2 stores the data in typed envelopes, version 1 stored it as plain JSON.
+ */
+export const FIXTURE_VERSION = 2;
+
+/**
+ * Default time in milliseconds after which a fixture lock is considered abandoned and taken over.
+ */
+export const DEFAULT_FIXTURE_LOCK_TIMEOUT = 30_000;
+
+/**
+ * Environment variable that enables fixture update mode when set to a value other than '', '0' or 'false'.
+ */
+export const FIXTURE_UPDATE_ENV = 'INTERFACE_FORGE_UPDATE_FIXTURES';
+
 /**
  * Default constraints for numeric generation
  */
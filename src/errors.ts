@@ -1,3 +1,22 @@
+/**
+ * An input of the factory signature that differs between a fixture and the current factory.
+ */
+export interface FixtureSignatureChange {
+    /**
+     * The value of the current factory, undefined if the input was removed
+     */
+    current?: unknown;
+    kind: 'added' | 'changed' | 'removed';
+    /**
+     * Dot-separated path of the input, e.g. `fields.email` or `options.seed`
+     */
+    path: string;
+    /**
+     * The value stored in the fixture, undefined if the input was added
+     */
+    previous?: unknown;
+}
+
 export class CircularReferenceError extends Error {
     constructor(
         message = 'Circular reference detected in factory composition',
@@ -22,9 +41,23 @@ export class FixtureError extends Error {
 }
 
 export class FixtureValidationError extends FixtureError {
-    constructor(message: string) {
+    /**
+     * The signature inputs that changed since the fixture was written. Empty if the fixture
+     * does not store its signature inputs, or if the error is not caused by a signature mismatch.
+     */
+    readonly changes: FixtureSignatureChange[];
+
+    constructor(message: string, changes: FixtureSignatureChange[] = []) {
         super(message);
         this.name = 'FixtureValidationError';
+        this.changes = changes;
+    }
+}
+
+export class UniqueConstraintError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UniqueConstraintError';
     }
 }
 
@@ -1,8 +1,19 @@
-import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import fs from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
-import { Factory, FixtureError, FixtureValidationError } from './index';
+import { de, Faker } from '@faker-js/faker';
+import {
+    ConfigurationError,
+    Factory,
+    FactoryOptions,
+    FixtureError,
+    FixtureStore,
+    FixtureValidationError,
+    getFixtureSummary,
+    MemoryFixtureStore,
+    resetFixtureSummary,
+} from './index';
 import { z } from 'zod/v4';
 import { ZodFactory } from './zod';
 
@@ -171,10 +182,93 @@ describe('Factory Fixture Functionality', () => {
 
             factory.build(undefined, { generateFixture: true });
 
-            // Should create a file with factory name and timestamp
-            const files = fs.readdirSync(path.join(tempDir, '__fixtures__'));
-            expect(files.length).toBe(1);
-            expect(files[0]).toMatch(/^factory-\d+\.json$/);
+            // Should create a file named after the calling module, the test and the factory
+            const files = fs.readdirSync(
+                path.join(tempDir, 'fixture.spec', '__fixtures__'),
+            );
+            expect(files).toEqual([
+                'factory-fixture-functionality-build-with-generatefixture-option-should-use-default-path-when-generatefixture-is-true-factory-1.json',
+            ]);
+        });
+
+        it('should use the factory name in the default path', () => {
+            const factory = new Factory<{ test: boolean }>(
+                () => ({
+                    test: true,
+                }),
+                {
+                    fixtures: { basePath: tempDir },
+                    name: 'Feature',
+                },
+            );
+
+            factory.build(undefined, { generateFixture: true });
+
+            const files = fs.readdirSync(
+                path.join(tempDir, 'fixture.spec', '__fixtures__'),
+            );
+            expect(files[0]).toMatch(/-feature-1\.json$/);
+        });
+
+        it('should number the default paths of a test by call order', () => {
+            const factory = new Factory<{ value: number }>(
+                (faker) => ({ value: faker.number.int() }),
+                {
+                    fixtures: { basePath: tempDir },
+                    generateFixture: true,
+                },
+            );
+
+            const first = factory.build();
+            const second = factory.build();
+            const batch = factory.batch(2);
+
+            const fixturesDir = path.join(
+                tempDir,
+                'fixture.spec',
+                '__fixtures__',
+            );
+            const files = fs.readdirSync(fixturesDir).sort();
+            expect(
+                files.map((file) => file.replace(/^.*-factory-/, '')),
+            ).toEqual(['1.json', '2.json', '3.json']);
+            const read = (file: string) =>
+                (
+                    JSON.parse(
+                        fs.readFileSync(path.join(fixturesDir, file), 'utf8'),
+                    ) as { data: unknown }
+                ).data;
+            expect(files.map(read)).toEqual([first, second, batch]);
+        });
+
+        it('should place default paths under the calling module relative to the base path', () => {
+            const factory = new Factory<{ test: boolean }>(
+                () => ({ test: true }),
+                {
+                    fixtures: {
+                        basePath: path.resolve(__dirname, '..'),
+                        useSubdirectory: false,
+                    },
+                    name: 'Relative',
+                },
+            );
+            const parseFixturePath = vi
+                .spyOn(
+                    factory as unknown as {
+                        parseFixturePath: (filePath: string) => unknown;
+                    },
+                    'parseFixturePath',
+                )
+                .mockImplementation(() => {
+                    throw new FixtureError('stop');
+                });
+
+            expect(() =>
+                factory.build(undefined, { generateFixture: true }),
+            ).toThrow('stop');
+            expect(parseFixturePath.mock.calls[0][0]).toBe(
+                'src/fixture.spec/factory-fixture-functionality-build-with-generatefixture-option-should-place-default-paths-under-the-calling-module-relative-to-the-base-path-relative-1',
+            );
         });
 
         it('should not generate fixture when generateFixture is not set', () => {
@@ -227,6 +321,136 @@ describe('Factory Fixture Functionality', () => {
             ).toThrow(FixtureValidationError);
         });
 
+        it('should cache instances with back-references and cyclic kwargs', () => {
+            interface Post {
+                author: User;
+                title: string;
+            }
+            interface User {
+                name: string;
+                posts: Post[];
+            }
+            const PostFactory: Factory<Post> = new Factory<Post>((faker) => ({
+                author:
+                    faker.parent(UserFactory) ??
+                    faker.use(() => UserFactory.build({ posts: [] })),
+                title: faker.lorem.sentence(),
+            }));
+            const UserFactory: Factory<User> = new Factory<User>(
+                (faker) => ({
+                    name: faker.person.fullName(),
+                    posts: faker.use(() => PostFactory.batch(2)),
+                }),
+                { fixtures: { basePath: tempDir } },
+            );
+
+            const user = UserFactory.build({}, { generateFixture: 'cyclic' });
+            const cached = UserFactory.build({}, { generateFixture: 'cyclic' });
+
+            expect(cached).toEqual(user);
+            expect(cached).not.toBe(user);
+            expect(cached.posts[0].author).toBe(cached);
+
+            const editor: User = { name: 'Editor', posts: [] };
+            editor.posts.push({ author: editor, title: 'Note' });
+            const first = UserFactory.batch(
+                1,
+                { posts: editor.posts },
+                {
+                    generateFixture: 'cyclic-kwargs',
+                },
+            );
+            expect(
+                UserFactory.batch(
+                    1,
+                    { posts: editor.posts },
+                    {
+                        generateFixture: 'cyclic-kwargs',
+                    },
+                ),
+            ).toEqual(first);
+        });
+
+        it('should store the signature inputs and report what changed', () => {
+            const factory = new Factory<{ name: string }>(
+                (faker) => ({ name: faker.person.firstName() }),
+                { fixtures: { basePath: tempDir }, seed: 1 },
+            );
+            factory.batch(2, undefined, { generateFixture: 'signature-diff' });
+
+            const fixtureContent = JSON.parse(
+                fs.readFileSync(
+                    path.join(tempDir, '__fixtures__', 'signature-diff.json'),
+                    'utf8',
+                ),
+            );
+            expect(fixtureContent.signatureInputs).toMatchObject({
+                hooks: { afterBuild: { count: 0 } },
+                inputs: { size: 2 },
+                name: 'Factory',
+                options: { seed: 1, version: 1 },
+            });
+
+            let error: FixtureValidationError | undefined;
+            try {
+                factory
+                    .withOptions({ seed: 2 })
+                    .batch(3, undefined, { generateFixture: 'signature-diff' });
+            } catch (caught) {
+                error = caught as FixtureValidationError;
+            }
+
+            expect(error).toBeInstanceOf(FixtureValidationError);
+            expect(error?.changes).toEqual([
+                {
+                    current: 3,
+                    kind: 'changed',
+                    path: 'inputs.size',
+                    previous: 2,
+                },
+                {
+                    current: 2,
+                    kind: 'changed',
+                    path: 'options.seed',
+                    previous: 1,
+                },
+            ]);
+            expect(error?.message).toContain(
+                'Changed inputs:\n  inputs.size: 2 → 3\n  options.seed: 1 → 2\n',
+            );
+        });
+
+        it('should report only the hashes for fixtures without signature inputs', () => {
+            const factory = new Factory<{ name: string }>(
+                () => ({ name: 'a' }),
+                {
+                    fixtures: { basePath: tempDir },
+                },
+            );
+            fs.mkdirSync(path.join(tempDir, '__fixtures__'));
+            fs.writeFileSync(
+                path.join(tempDir, '__fixtures__', 'no-inputs.json'),
+                JSON.stringify({
+                    createdAt: new Date().toISOString(),
+                    data: { name: 'a' },
+                    signature: 'outdated',
+                    version: 2,
+                }),
+            );
+
+            let error: FixtureValidationError | undefined;
+            try {
+                factory.build(undefined, { generateFixture: 'no-inputs' });
+            } catch (caught) {
+                error = caught as FixtureValidationError;
+            }
+
+            expect(error?.changes).toEqual([]);
+            expect(error?.message).toMatch(
+                /Fixture: outdated\. Delete the fixture file/,
+            );
+        });
+
         it('should not validate signature when validateSignature is false', () => {
             const factory1 = new Factory<{ name: string }>(
                 (faker) => ({
@@ -315,6 +539,556 @@ describe('Factory Fixture Functionality', () => {
         });
     });
 
+    describe('batch fixtures', () => {
+        const createFactory = () =>
+            new Factory<{ id: string; role: string }>(
+                (faker) => ({
+                    id: faker.string.uuid(),
+                    role: 'user',
+                }),
+                {
+                    fixtures: { basePath: tempDir },
+                },
+            );
+
+        it('should store a batch as one fixture containing the array', () => {
+            const factory = createFactory();
+
+            const first = factory.batch(50, undefined, {
+                generateFixture: 'rows',
+            });
+            const second = factory.batch(50, undefined, {
+                generateFixture: 'rows',
+            });
+
+            expect(first).toHaveLength(50);
+            expect(second).toEqual(first);
+
+            const fixture = JSON.parse(
+                fs.readFileSync(
+                    path.join(tempDir, '__fixtures__', 'rows.json'),
+                    'utf8',
+                ),
+            );
+            expect(fixture.data).toEqual(first);
+        });
+
+        it('should include the size and kwargs in the signature', () => {
+            const factory = createFactory();
+            factory.batch(3, { role: 'admin' }, { generateFixture: 'sized' });
+
+            expect(() =>
+                factory.batch(
+                    4,
+                    { role: 'admin' },
+                    { generateFixture: 'sized' },
+                ),
+            ).toThrow(FixtureValidationError);
+            expect(() =>
+                factory.batch(
+                    3,
+                    { role: 'guest' },
+                    { generateFixture: 'sized' },
+                ),
+            ).toThrow(FixtureValidationError);
+            expect(
+                factory.batch(
+                    3,
+                    { role: 'admin' },
+                    { generateFixture: 'sized' },
+                ),
+            ).toHaveLength(3);
+        });
+
+        it('should include the traits and transient parameters in the signature', () => {
+            const factory = createFactory().trait('admin', { role: 'admin' });
+            const users = factory.batch(
+                3,
+                {},
+                { generateFixture: 'traits', traits: ['admin'] },
+            );
+            expect(users.every(({ role }) => role === 'admin')).toBe(true);
+
+            expect(() =>
+                factory.batch(3, {}, { generateFixture: 'traits' }),
+            ).toThrow(FixtureValidationError);
+            expect(() =>
+                factory.build({}, { generateFixture: 'traits-build' }),
+            ).not.toThrow();
+            expect(() =>
+                factory.build(
+                    {},
+                    { generateFixture: 'traits-build', traits: ['admin'] },
+                ),
+            ).toThrow(FixtureValidationError);
+            expect(() =>
+                factory.batch(
+                    3,
+                    {},
+                    {
+                        generateFixture: 'traits',
+                        traits: ['admin'],
+                        transient: { verbose: true },
+                    },
+                ),
+            ).toThrow(FixtureValidationError);
+        });
+
+        it('should include trait definitions, unique constraints and associations in the signature', () => {
+            const build = (
+                configure: (
+                    factory: ReturnType<typeof createFactory>,
+                ) => unknown,
+            ) => {
+                const factory = createFactory();
+                configure(factory);
+                return () =>
+                    factory.batch(2, undefined, {
+                        generateFixture: 'definitions',
+                    });
+            };
+            build(() => undefined)();
+
+            expect(
+                build((factory) => factory.trait('admin', { role: 'admin' })),
+            ).toThrow(FixtureValidationError);
+            expect(build((factory) => factory.unique(['id']))).toThrow(
+                FixtureValidationError,
+            );
+            const RoleFactory = new Factory<{ id: string }>(
+                (faker) => ({ id: faker.string.uuid() }),
+                { name: 'Role' },
+            );
+            expect(
+                build((factory) =>
+                    factory.belongsTo('role', RoleFactory, {
+                        foreignKey: 'id',
+                    }),
+                ),
+            ).toThrow(/associations\.0: added \(.*"factory":"Role"/);
+        });
+
+        it('should cache batchAsync() results', async () => {
+            const factory = createFactory();
+
+            const first = await factory.batchAsync(5, undefined, {
+                generateFixture: 'async-rows',
+            });
+            const second = await factory.batchAsync(5, undefined, {
+                generateFixture: 'async-rows',
+            });
+
+            expect(second).toEqual(first);
+        });
+
+        it('should persist the cached batch in createMany()', async () => {
+            const createMany = vi.fn((data: { id: string; role: string }[]) =>
+                Promise.resolve(data),
+            );
+            const factory = createFactory().withAdapter({
+                create: (data) => Promise.resolve(data),
+                createMany,
+            });
+
+            const first = await factory.createMany(3, undefined, {
+                generateFixture: 'persisted',
+            });
+            const second = await factory.createMany(3, undefined, {
+                generateFixture: 'persisted',
+            });
+
+            expect(second).toEqual(first);
+            expect(createMany).toHaveBeenCalledTimes(2);
+            expect(createMany.mock.calls[1][0]).toEqual(first);
+        });
+
+        it('should persist the cached instance in create()', async () => {
+            const create = vi.fn((data: { id: string; role: string }) =>
+                Promise.resolve(data),
+            );
+            const store = new MemoryFixtureStore();
+            const factory = new Factory<{ id: string; role: string }>(
+                (faker) => ({ id: faker.string.uuid(), role: 'member' }),
+                { fixtures: { basePath: tempDir, store } },
+            ).withAdapter({
+                create,
+                createMany: (data) => Promise.resolve(data),
+            });
+
+            const first = await factory.create(undefined, {
+                generateFixture: 'persisted-one',
+            });
+            const second = await factory.create(undefined, {
+                generateFixture: 'persisted-one',
+            });
+
+            expect(second).toEqual(first);
+            expect(store.list()).toHaveLength(1);
+            expect(create).toHaveBeenCalledTimes(2);
+            expect(create.mock.calls[1][0]).toEqual(first);
+        });
+    });
+
+    describe('update mode', () => {
+        const createFactories = (update?: boolean) => ({
+            factory1: new Factory<{ name: string }>(
+                (faker) => ({ name: faker.person.firstName() }),
+                { fixtures: { basePath: tempDir, update } },
+            ),
+            factory2: new Factory<{ email: string; name: string }>(
+                (faker) => ({
+                    email: faker.internet.email(),
+                    name: faker.person.firstName(),
+                }),
+                { fixtures: { basePath: tempDir, update } },
+            ),
+        });
+
+        beforeEach(() => {
+            resetFixtureSummary();
+        });
+
+        afterEach(() => {
+            vi.unstubAllEnvs();
+        });
+
+        it('should regenerate and rewrite fixtures whose signature changed', () => {
+            const { factory1, factory2 } = createFactories(true);
+            factory1.build(undefined, { generateFixture: 'updated' });
+
+            const result = factory2.build(undefined, {
+                generateFixture: 'updated',
+            });
+            expect(result.email).toBeDefined();
+
+            const fixturePath = path.join(
+                tempDir,
+                '__fixtures__',
+                'updated.json',
+            );
+            const content = JSON.parse(
+                fs.readFileSync(fixturePath, 'utf8'),
+            ) as { data: unknown };
+            expect(content.data).toEqual(result);
+            expect(
+                factory2.build(undefined, { generateFixture: 'updated' }),
+            ).toEqual(result);
+        });
+
+        it('should report created, updated and unchanged fixtures', () => {
+            const { factory1, factory2 } = createFactories(true);
+            factory1.build(undefined, { generateFixture: 'kept' });
+            factory1.build(undefined, { generateFixture: 'changed' });
+            resetFixtureSummary();
+
+            factory1.build(undefined, { generateFixture: 'kept' });
+            factory2.build(undefined, { generateFixture: 'changed' });
+            factory2.batch(2, undefined, { generateFixture: 'new' });
+
+            const fixturesDir = path.join(tempDir, '__fixtures__');
+            expect(getFixtureSummary()).toEqual({
+                created: [path.join(fixturesDir, 'new.json')],
+                unchanged: [path.join(fixturesDir, 'kept.json')],
+                updated: [path.join(fixturesDir, 'changed.json')],
+            });
+        });
+
+        it('should be enabled by the INTERFACE_FORGE_UPDATE_FIXTURES environment variable', () => {
+            const { factory1, factory2 } = createFactories();
+            factory1.build(undefined, { generateFixture: 'env' });
+
+            vi.stubEnv('INTERFACE_FORGE_UPDATE_FIXTURES', '0');
+            expect(() =>
+                factory2.build(undefined, { generateFixture: 'env' }),
+            ).toThrow(FixtureValidationError);
+
+            vi.stubEnv('INTERFACE_FORGE_UPDATE_FIXTURES', '1');
+            expect(
+                factory2.build(undefined, { generateFixture: 'env' }).email,
+            ).toBeDefined();
+        });
+
+        it('should prefer the update option over the environment variable', () => {
+            const { factory1, factory2 } = createFactories(false);
+            factory1.build(undefined, { generateFixture: 'option' });
+
+            vi.stubEnv('INTERFACE_FORGE_UPDATE_FIXTURES', 'true');
+            expect(() =>
+                factory2.build(undefined, { generateFixture: 'option' }),
+            ).toThrow(FixtureValidationError);
+        });
+
+        it('should update ZodFactory fixtures', () => {
+            const options = { fixtures: { basePath: tempDir, update: true } };
+            new ZodFactory(z.object({ name: z.string() }), options).build(
+                undefined,
+                { generateFixture: 'zod-updated' },
+            );
+
+            const result = new ZodFactory(
+                z.object({ age: z.number(), name: z.string() }),
+                options,
+            ).build(undefined, { generateFixture: 'zod-updated' });
+            expect(typeof result.age).toBe('number');
+        });
+    });
+
+    describe('Fixture serialization', () => {
+        interface Event {
+            attendees: Set<string>;
+            budget: bigint;
+            notes?: string;
+            scores: Map<string, number>;
+            startsAt: Date;
+        }
+
+        const createFactory = (fixtures = {}) =>
+            new Factory<Event>(
+                (faker) => ({
+                    attendees: new Set([faker.person.firstName()]),
+                    budget: faker.number.bigInt(),
+                    notes: undefined,
+                    scores: new Map([['a', faker.number.int()]]),
+                    startsAt: faker.date.future(),
+                }),
+                {
+                    fixtures: { basePath: tempDir, ...fixtures },
+                },
+            );
+
+        it('should return the same types from a cached fixture', () => {
+            const generated = createFactory().build(undefined, {
+                generateFixture: 'event',
+            });
+            const cached = createFactory().build(undefined, {
+                generateFixture: 'event',
+            });
+
+            expect(cached).toEqual(generated);
+            expect(cached.startsAt).toBeInstanceOf(Date);
+            expect(cached.scores).toBeInstanceOf(Map);
+            expect(cached.attendees).toBeInstanceOf(Set);
+            expect(typeof cached.budget).toBe('bigint');
+            expect(cached).toHaveProperty('notes');
+        });
+
+        it('should apply custom codecs', () => {
+            class Point {
+                constructor(
+                    readonly x: number,
+                    readonly y: number,
+                ) {}
+            }
+            const factory = new Factory<{ at: Point }>(
+                (faker) => ({
+                    at: { x: faker.number.int(), y: faker.number.int() },
+                }),
+                {
+                    fixtures: {
+                        basePath: tempDir,
+                        codecs: [
+                            {
+                                decode: ([x, y]: [number, number]) =>
+                                    new Point(x, y),
+                                encode: (point: Point) => [point.x, point.y],
+                                name: 'Point',
+                                test: (value): value is Point =>
+                                    value instanceof Point,
+                            },
+                        ],
+                    },
+                },
+            ).afterBuild(({ at }) => ({ at: new Point(at.x, at.y) }));
+
+            const generated = factory.build(undefined, {
+                generateFixture: 'point',
+            });
+            const cached = factory.build(undefined, {
+                generateFixture: 'point',
+            });
+
+            expect(cached.at).toBeInstanceOf(Point);
+            expect(cached).toEqual(generated);
+        });
+
+        it('should read version 1 fixtures as plain JSON', () => {
+            const factory = new Factory<{ value: { $type: string } }>(
+                () => ({ value: { $type: 'Date' } }),
+                {
+                    fixtures: { basePath: tempDir, validateSignature: false },
+                },
+            );
+            fs.mkdirSync(path.join(tempDir, '__fixtures__'));
+            fs.writeFileSync(
+                path.join(tempDir, '__fixtures__', 'legacy.json'),
+                JSON.stringify({
+                    createdAt: new Date().toISOString(),
+                    data: { value: { $type: 'Date' } },
+                    signature: 'legacy',
+                    version: 1,
+                }),
+            );
+
+            expect(
+                factory.build(undefined, { generateFixture: 'legacy' }),
+            ).toEqual({ value: { $type: 'Date' } });
+        });
+    });
+
+    describe('Fixture migrations', () => {
+        interface User {
+            name: string;
+            role?: string;
+            tags?: string[];
+        }
+        const userFn = (faker: Faker): User => ({
+            name: faker.person.firstName(),
+        });
+        const readFixture = (name: string) =>
+            JSON.parse(
+                fs.readFileSync(
+                    path.join(tempDir, '__fixtures__', `${name}.json`),
+                    'utf8',
+                ),
+            ) as { data: unknown; factoryVersion: number };
+
+        it('should migrate fixtures of older versions and write them back', () => {
+            const curated = new Factory<User>(userFn, {
+                fixtures: { basePath: tempDir },
+            }).build({ name: 'Curated' }, { generateFixture: 'user' });
+            expect(readFixture('user').factoryVersion).toBe(1);
+
+            const factory = new Factory<User>(
+                (faker) => ({
+                    name: faker.person.firstName(),
+                    role: 'member',
+                    tags: [],
+                }),
+                { fixtures: { basePath: tempDir }, version: 3 },
+            )
+                .migration(1, (user: User) => ({ ...user, role: 'member' }))
+                .migration(2, (user: User) => ({ ...user, tags: ['old'] }));
+
+            const migrated = factory.build(undefined, {
+                generateFixture: 'user',
+            });
+
+            expect(migrated).toEqual({
+                ...curated,
+                role: 'member',
+                tags: ['old'],
+            });
+            expect(readFixture('user')).toMatchObject({
+                data: migrated,
+                factoryVersion: 3,
+            });
+            // The written back fixture matches the signature of the current version
+            expect(
+                factory.build(undefined, { generateFixture: 'user' }),
+            ).toEqual(migrated);
+        });
+
+        it('should migrate each instance of a batch fixture', () => {
+            const users = new Factory<User>(userFn, {
+                fixtures: { basePath: tempDir },
+            }).batch(3, undefined, { generateFixture: 'users' });
+
+            const migrated = new Factory<User>(userFn, {
+                fixtures: { basePath: tempDir },
+                version: 2,
+            })
+                .migration(1, (user: User) => ({ ...user, role: 'member' }))
+                .batch(3, undefined, { generateFixture: 'users' });
+
+            expect(migrated).toEqual(
+                users.map((user) => ({ ...user, role: 'member' })),
+            );
+        });
+
+        it('should throw if a migration is missing outside update mode', () => {
+            new Factory<User>(userFn, {
+                fixtures: { basePath: tempDir },
+            }).build(undefined, { generateFixture: 'missing' });
+
+            const factory = new Factory<User>(userFn, {
+                fixtures: { basePath: tempDir },
+                version: 3,
+            }).migration(1, (user: User) => user);
+
+            expect(() =>
+                factory.build(undefined, { generateFixture: 'missing' }),
+            ).toThrow(
+                'No fixture migration from version 2 of Factory is registered',
+            );
+            expect(
+                factory
+                    .withOptions({
+                        fixtures: { basePath: tempDir, update: true },
+                    })
+                    .build(undefined, { generateFixture: 'missing' }),
+            ).toHaveProperty('name');
+            expect(readFixture('missing').factoryVersion).toBe(3);
+        });
+
+        it('should include the version in the signature', () => {
+            const options = { fixtures: { basePath: tempDir } };
+            new Factory<User>(userFn, { ...options, version: 2 }).build(
+                undefined,
+                { generateFixture: 'newer' },
+            );
+
+            expect(() =>
+                new Factory<User>(userFn, options).build(undefined, {
+                    generateFixture: 'newer',
+                }),
+            ).toThrow(FixtureValidationError);
+        });
+
+        it('should reject invalid migration versions', () => {
+            expect(() =>
+                new Factory<User>(userFn).migration(0, (user: User) => user),
+            ).toThrow(ConfigurationError);
+        });
+    });
+
+    describe('Fixture stores', () => {
+        it('should read and write fixtures through the configured store', () => {
+            const store = new MemoryFixtureStore();
+            const factory = new Factory<{ name: string }>(
+                (faker) => ({ name: faker.person.firstName() }),
+                { fixtures: { basePath: '/virtual', store } },
+            );
+
+            const first = factory.build(undefined, {
+                generateFixture: 'users/admin',
+            });
+            const second = factory.build(undefined, {
+                generateFixture: 'users/admin',
+            });
+
+            expect(second).toEqual(first);
+            expect(store.list()).toEqual([
+                path.join('/virtual', 'users', '__fixtures__', 'admin.json'),
+            ]);
+            expect(fs.existsSync('/virtual')).toBe(false);
+        });
+
+        it('should validate signatures of fixtures in the store', () => {
+            const store = new MemoryFixtureStore();
+            new Factory<{ name: string }>(
+                (faker) => ({ name: faker.person.firstName() }),
+                { fixtures: { store } },
+            ).build(undefined, { generateFixture: 'changed' });
+
+            expect(() =>
+                new Factory<{ email: string }>(
+                    (faker) => ({ email: faker.internet.email() }),
+                    { fixtures: { store } },
+                ).build(undefined, { generateFixture: 'changed' }),
+            ).toThrow(FixtureValidationError);
+        });
+    });
+
     describe('Custom fixture paths', () => {
         it('should respect custom directory name', () => {
             const factory = new Factory<{ test: boolean }>(
@@ -504,6 +1278,34 @@ describe('Factory Fixture Functionality', () => {
                 }),
             ).toThrow(FixtureValidationError);
         });
+
+        it('should report the changed hook count and source', () => {
+            const factory = new Factory<{ test: boolean }>(
+                () => ({ test: true }),
+                { fixtures: { basePath: tempDir, includeSource: true } },
+            );
+            factory.build(undefined, { generateFixture: 'hook-diff' });
+            factory.afterBuild((instance) => instance);
+
+            let error: FixtureValidationError | undefined;
+            try {
+                factory.build(undefined, { generateFixture: 'hook-diff' });
+            } catch (caught) {
+                error = caught as FixtureValidationError;
+            }
+
+            expect(error?.changes.map(({ path }) => path)).toEqual([
+                'hooks.afterBuild.count',
+                'hooks.afterBuild.sourceHash',
+            ]);
+            expect(error?.changes[0]).toEqual({
+                current: 1,
+                kind: 'changed',
+                path: 'hooks.afterBuild.count',
+                previous: 0,
+            });
+            expect(error?.message).toContain('hooks.afterBuild.count: 0 → 1');
+        });
     });
 
     describe('ZodFactory fixtures', () => {
@@ -535,6 +1337,22 @@ describe('Factory Fixture Functionality', () => {
             expect(fs.existsSync(fixturePath)).toBe(true);
         });
 
+        it('should cache batches of ZodFactory', () => {
+            const factory = new ZodFactory(UserSchema, {
+                fixtures: { basePath: tempDir },
+            });
+
+            const first = factory.batch(4, undefined, {
+                generateFixture: 'zod-users',
+            });
+            const second = factory.batch(4, undefined, {
+                generateFixture: 'zod-users',
+            });
+
+            expect(second).toEqual(first);
+            expect(() => z.array(UserSchema).parse(first)).not.toThrow();
+        });
+
         it('should include schema information in signature', () => {
             const factory1 = new ZodFactory(z.object({ name: z.string() }), {
                 fixtures: { basePath: tempDir },
@@ -559,6 +1377,36 @@ describe('Factory Fixture Functionality', () => {
             ).toThrow(FixtureValidationError);
         });
 
+        it('should report added, removed and retyped schema fields', () => {
+            new ZodFactory(
+                z.object({ age: z.number(), id: z.string(), name: z.string() }),
+                { fixtures: { basePath: tempDir } },
+            ).build(undefined, { generateFixture: 'zod-diff' } as any);
+
+            let error: FixtureValidationError | undefined;
+            try {
+                new ZodFactory(
+                    z.object({
+                        email: z.email(),
+                        id: z.number(),
+                        name: z.string(),
+                    }),
+                    { fixtures: { basePath: tempDir } },
+                ).build(undefined, { generateFixture: 'zod-diff' } as any);
+            } catch (caught) {
+                error = caught as FixtureValidationError;
+            }
+
+            expect(
+                error?.changes.map(({ kind, path }) => `${kind} ${path}`),
+            ).toEqual([
+                'removed fields.age',
+                'added fields.email',
+                'changed fields.id',
+            ]);
+            expect(error?.message).toContain('fields.id: "string" → "number"');
+        });
+
         it('should handle partial factory functions with Zod', () => {
             const factory = new ZodFactory(
                 UserSchema,
@@ -693,6 +1541,100 @@ describe('Factory Fixture Functionality', () => {
             });
             expect(result.value).toBe(1); // Cached value
         });
+
+        it('should include hook sources in the signature', () => {
+            const createFactory = (suffix: string) =>
+                new Factory<{ value: string }>(() => ({ value: 'a' }), {
+                    fixtures: { basePath: tempDir },
+                }).afterBuild((instance) => ({
+                    value: instance.value + suffix,
+                }));
+
+            createFactory('b').build(undefined, { generateFixture: 'hooks' });
+
+            expect(() =>
+                new Factory<{ value: string }>(() => ({ value: 'a' }), {
+                    fixtures: { basePath: tempDir },
+                })
+                    .afterBuild((instance) => ({
+                        value: instance.value.toUpperCase(),
+                    }))
+                    .build(undefined, { generateFixture: 'hooks' }),
+            ).toThrow(FixtureValidationError);
+        });
+
+        it('should include the locale and seed in the signature', () => {
+            const createFactory = (options: FactoryOptions) =>
+                new Factory<{ value: string }>(
+                    (faker) => ({ value: faker.lorem.word() }),
+                    { fixtures: { basePath: tempDir }, ...options },
+                );
+
+            createFactory({ seed: 1 }).build(undefined, {
+                generateFixture: 'options',
+            });
+
+            expect(() =>
+                createFactory({ seed: 2 }).build(undefined, {
+                    generateFixture: 'options',
+                }),
+            ).toThrow(FixtureValidationError);
+            expect(() =>
+                createFactory({ locale: de, seed: 1 }).build(undefined, {
+                    generateFixture: 'options',
+                }),
+            ).toThrow(FixtureValidationError);
+        });
+
+        it('should include the factories of compose() and extend() in the signature', () => {
+            const fixtures = { basePath: tempDir, includeSource: false };
+            const createBase = (name: string) =>
+                new Factory<{ id: string; tag?: { label: string } }>(
+                    (faker) => ({ id: faker.string.uuid() }),
+                    { fixtures, name },
+                );
+            const createTag = (name: string) =>
+                new Factory<{ label: string }>(
+                    (faker) => ({ label: faker.lorem.word() }),
+                    { fixtures, name },
+                );
+
+            createBase('Item')
+                .compose({ tag: createTag('Tag') })
+                .build(undefined, { generateFixture: 'composed' });
+            expect(() =>
+                createBase('Item')
+                    .compose({ tag: createTag('Label') })
+                    .build(undefined, { generateFixture: 'composed' }),
+            ).toThrow(FixtureValidationError);
+
+            createBase('Item')
+                .extend(() => ({ id: 'fixed' }))
+                .build(undefined, { generateFixture: 'extended' });
+            expect(() =>
+                createBase('Product')
+                    .extend(() => ({ id: 'fixed' }))
+                    .build(undefined, { generateFixture: 'extended' }),
+            ).toThrow(FixtureValidationError);
+        });
+
+        it('should include the factory name in the signature', () => {
+            const createFactory = (name: string) =>
+                new Factory<{ value: number }>(() => ({ value: 1 }), {
+                    fixtures: { basePath: tempDir },
+                    name,
+                });
+
+            createFactory('First').build(undefined, {
+                generateFixture: 'named',
+            });
+
+            expect(() =>
+                createFactory('Second').build(undefined, {
+                    generateFixture: 'named',
+                }),
+            ).toThrow(FixtureValidationError);
+        });
     });
 
     describe('Concurrent access', () => {
@@ -724,6 +1666,69 @@ describe('Factory Fixture Functionality', () => {
                 expect(typeof result.id).toBe('string');
             });
         });
+
+        it('should read the output of a writer that finished while waiting for the lock', () => {
+            const factoryFn = vi.fn((faker: Faker) => ({
+                id: faker.string.uuid(),
+            }));
+            const store = new MemoryFixtureStore();
+            const otherWorker = new Factory<{ id: string }>(factoryFn, {
+                fixtures: { store },
+            });
+            let written: { id: string } | undefined;
+            const lockingStore: FixtureStore = {
+                delete: (key) => {
+                    store.delete(key);
+                },
+                list: (prefix) => store.list(prefix),
+                // The other worker generates the fixture while this one waits for the lock
+                lock: () => {
+                    written = otherWorker.build(undefined, {
+                        generateFixture: 'shared',
+                    });
+                    return () => undefined;
+                },
+                read: (key) => store.read(key),
+                write: (key, content) => {
+                    store.write(key, content);
+                },
+            };
+            const factory = new Factory<{ id: string }>(factoryFn, {
+                fixtures: { store: lockingStore },
+            });
+
+            const result = factory.build(undefined, {
+                generateFixture: 'shared',
+            });
+
+            expect(result).toEqual(written);
+            expect(factoryFn).toHaveBeenCalledTimes(1);
+        });
+
+        it('should generate a fixture once for concurrent async builds', async () => {
+            const factoryFn = vi.fn(async (faker: Faker) => {
+                await new Promise((resolve) => setTimeout(resolve, 5));
+                return { id: faker.string.uuid() };
+            });
+            const factory = new Factory<{ id: string }>(factoryFn, {
+                fixtures: { basePath: tempDir },
+            });
+
+            const results = await Promise.all(
+                Array.from({ length: 3 }, () =>
+                    factory.buildAsync(undefined, {
+                        generateFixture: 'concurrent-async',
+                    }),
+                ),
+            );
+
+            expect(factoryFn).toHaveBeenCalledTimes(1);
+            expect(results[1]).toEqual(results[0]);
+            expect(results[2]).toEqual(results[0]);
+            expect(fs.readdirSync(path.join(tempDir, '__fixtures__'))).toEqual([
+                'concurrent-async.json',
+            ]);
+        });
     });
 
     describe('Factory with generateFixture in constructor options', () => {
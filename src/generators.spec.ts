@@ -67,6 +67,20 @@ describe('Generators', () => {
             expect([...sampled].sort()).toEqual(['a', 'b', 'c']);
         });
 
+        it('draws values from the provided random source', () => {
+            const randoms = [0.1, 0.5, 0.9, 0.5];
+            const generator = new SampleGenerator(
+                ['a', 'b', 'c'],
+                () => randoms.shift() ?? 0,
+            );
+            const gen = generator.generate();
+
+            expect(gen.next().value).toBe('a');
+            expect(gen.next().value).toBe('b');
+            expect(gen.next().value).toBe('c');
+            expect(gen.next().value).toBe('b');
+        });
+
         it('throws error for empty iterable', () => {
             expect(() => new SampleGenerator([])).toThrow(
                 'Cannot create generator from empty iterable',
@@ -49,8 +49,19 @@ export class CycleGenerator<T> extends BaseGenerator<T> {
  * @template T - The type of values to sample from
  */
 export class SampleGenerator<T> extends BaseGenerator<T> {
+    protected readonly random: () => number;
+
+    /**
+     * @param iterable - The values to sample from
+     * @param random - Source of random numbers in the range [0, 1). Pass a seeded source for reproducible output
+     */
+    constructor(iterable: Iterable<T>, random: () => number = Math.random) {
+        super(iterable);
+        this.random = random;
+    }
+
     generate(): Generator<T, T, T> {
-        const { values } = this;
+        const { random, values } = this;
         return (function* () {
             if (values.length === 1) {
                 // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
@@ -64,8 +75,7 @@ export class SampleGenerator<T> extends BaseGenerator<T> {
             while (true) {
                 let newValue: T;
                 do {
-                    newValue =
-                        values[Math.floor(Math.random() * values.length)];
+                    newValue = values[Math.floor(random() * values.length)];
                 } while (newValue === lastValue);
 
                 lastValue = newValue;
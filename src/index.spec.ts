@@ -1,4 +1,18 @@
-import { Factory, PersistenceAdapter } from './index.js';
+import {
+    BatchHookContext,
+    CircularReferenceError,
+    ConfigurationError,
+    Factory,
+    FactoryFunction,
+    FactoryOptions,
+    FactoryRegistry,
+    HookContext,
+    PersistenceAdapter,
+    pick,
+    scenario,
+    UniqueConstraintError,
+} from './index.js';
+import { de, en } from '@faker-js/faker';
 import { MongooseAdapter } from '../examples/adapters/mongoose-adapter.js';
 import { PrismaAdapter } from '../examples/adapters/prisma-adapter.js';
 import { TypeORMAdapter } from '../examples/adapters/typeorm-adapter.js';
@@ -644,6 +658,133 @@ describe('Factory class functionality', () => {
             expect(user.status).toBe('active');
         });
 
+        it('builds batches from [factory, size] tuples and many()', () => {
+            const UserFactory = new Factory<User>((factory) => ({
+                email: factory.internet.email(),
+                name: factory.person.fullName(),
+            }));
+            const PostFactory = new Factory<Post>((factory) => ({
+                content: factory.lorem.paragraph(),
+                title: factory.lorem.sentence(),
+            }));
+
+            const tupleFactory = UserFactory.compose<UserWithPosts>({
+                posts: [PostFactory, 3],
+            });
+            const first = tupleFactory.build();
+            const second = tupleFactory.build();
+            expect(first.posts).toHaveLength(3);
+            expect(first.posts[0].title).toBeDefined();
+            expect(second.posts[0]).not.toBe(first.posts[0]);
+
+            expect(
+                UserFactory.compose<UserWithPosts>({
+                    posts: PostFactory.many(2),
+                }).build().posts,
+            ).toHaveLength(2);
+
+            const rangeFactory = UserFactory.compose<UserWithPosts>({
+                posts: PostFactory.many({ max: 4, min: 1 }),
+            });
+            for (const user of rangeFactory.batch(10)) {
+                expect(user.posts.length).toBeGreaterThanOrEqual(1);
+                expect(user.posts.length).toBeLessThanOrEqual(4);
+            }
+        });
+
+        it('draws collection sizes from the seeded composed factory', () => {
+            const PostFactory = new Factory<Post>((factory) => ({
+                content: factory.lorem.paragraph(),
+                title: factory.lorem.sentence(),
+            }));
+            const createFactory = () =>
+                new Factory<User>((factory) => ({
+                    email: factory.internet.email(),
+                    name: factory.person.fullName(),
+                }))
+                    .compose<UserWithPosts>({
+                        posts: PostFactory.many({ max: 10, min: 0 }),
+                    })
+                    .withSeed(7);
+
+            expect(
+                createFactory()
+                    .batch(5)
+                    .map((user) => user.posts.length),
+            ).toEqual(
+                createFactory()
+                    .batch(5)
+                    .map((user) => user.posts.length),
+            );
+        });
+
+        it('builds composed batches asynchronously', async () => {
+            const UserFactory = new Factory<User>(async (factory) => ({
+                email: await Promise.resolve(factory.internet.email()),
+                name: factory.person.fullName(),
+            }));
+            const PostFactory = new Factory<Post>(async (factory) => ({
+                content: await Promise.resolve(factory.lorem.paragraph()),
+                title: factory.lorem.sentence(),
+            }));
+
+            const user = await UserFactory.compose<UserWithPosts>({
+                posts: [PostFactory, 2],
+            }).buildAsync();
+            expect(user.posts).toHaveLength(2);
+            expect(user.posts[1].content).toBeDefined();
+        });
+
+        it('limits the depth of factories composed into each other', () => {
+            interface Person {
+                name: string;
+                pet: null | Pet;
+            }
+
+            interface Pet {
+                name: string;
+                owner: null | Person;
+            }
+
+            const PetFactory: Factory<Pet> = new Factory<Pet>(
+                (factory) => ({
+                    name: factory.animal.petName(),
+                    owner: factory.use(() => PersonFactory.build()),
+                }),
+                { maxDepth: 4 },
+            );
+            const PersonFactory: Factory<Person> = new Factory<{
+                name: string;
+            }>(
+                (factory) => ({
+                    name: factory.person.firstName(),
+                }),
+                { maxDepth: 4 },
+            ).compose<Person>({ pet: PetFactory });
+
+            const person = PersonFactory.build();
+            expect(person.pet!.owner!.pet!.owner).toBeNull();
+        });
+
+        it('reports composed keys in strict mode paths', () => {
+            const TreeFactory: Factory<TreeNode> = new Factory<TreeNode>(
+                (factory) => ({ value: factory.lorem.word() }),
+                { strict: true },
+            ).compose<TreeNode>({
+                children: [
+                    new Factory<TreeNode>((factory) => ({
+                        children: factory.use(() => TreeFactory.batch(1)),
+                        value: factory.lorem.word(),
+                    })),
+                    1,
+                ],
+            });
+
+            expect(() => TreeFactory.build()).toThrow(
+                'Circular reference detected: Factory.children[0].children -> Factory',
+            );
+        });
+
         it('handles circular references with depth control', () => {
             const TreeNodeFactory = new Factory<TreeNode>(
                 (factory) => ({
@@ -653,77 +794,1660 @@ describe('Factory class functionality', () => {
                 { maxDepth: 3 },
             );
 
-            const tree = TreeNodeFactory.build();
-            expect(tree.value).toBeDefined();
-            expect(tree.children).toHaveLength(2);
-            expect(tree.children![0].children).toHaveLength(2);
-            expect(tree.children![0].children![0].children).toBeNull();
+            const tree = TreeNodeFactory.build();
+            expect(tree.value).toBeDefined();
+            expect(tree.children).toHaveLength(2);
+            expect(tree.children![0].children).toHaveLength(2);
+            expect(tree.children![0].children![0].children).toBeNull();
+        });
+
+        it('allows customizing max depth', () => {
+            const TreeNodeFactory = new Factory<TreeNode>(
+                (factory) => ({
+                    children: factory.batch(1),
+                    value: factory.string.alphanumeric(5),
+                }),
+                { maxDepth: 2 },
+            );
+
+            const tree = TreeNodeFactory.build();
+            expect(tree.value).toBeDefined();
+            expect(tree.children).toHaveLength(1);
+            expect(tree.children![0].children).toBeNull();
+        });
+
+        it('handles depth limit correctly with build overrides', () => {
+            const TreeNodeFactory = new Factory<TreeNode>(
+                (factory) => ({
+                    children: [factory.build({ value: 'child' })],
+                    value: factory.string.alphanumeric(5),
+                }),
+                { maxDepth: 2 },
+            );
+
+            const tree = TreeNodeFactory.build();
+            expect(tree.value).toBeDefined();
+            expect(tree.children).toHaveLength(1);
+            expect(tree.children![0].value).toBe('child');
+        });
+
+        it('returns null for batch when max depth exceeded', () => {
+            const TreeNodeFactory = new Factory<TreeNode>(
+                (factory) => ({
+                    children: factory.batch(2),
+                    value: 'node',
+                }),
+                { maxDepth: 1 },
+            );
+
+            const tree = TreeNodeFactory.build();
+            expect(tree.value).toBe('node');
+            expect(tree.children).toBeNull();
+        });
+
+        it('handles other factory methods through proxy', () => {
+            interface TestNode {
+                children?: TestNode[];
+                type: string;
+                value: string;
+            }
+
+            const TestNodeFactory = new Factory<TestNode>(
+                (factory) => ({
+                    children: factory.batch(1),
+                    type: factory.sample(['A', 'B', 'C']).next().value,
+                    value: factory.string.uuid(),
+                }),
+                { maxDepth: 2 },
+            );
+
+            const node = TestNodeFactory.build();
+            expect(node.value).toBeDefined();
+            expect(['A', 'B', 'C']).toContain(node.type);
+            expect(node.children).toHaveLength(1);
+        });
+    });
+
+    describe('sequence method', () => {
+        interface Row {
+            id: number;
+            slug: string;
+        }
+
+        const createRowFactory = () =>
+            new Factory<Row>((factory) => ({
+                id: factory.sequence('id'),
+                slug: factory.sequence('slug', (n) => `row-${n}`),
+            }));
+
+        it('persists counters across build() and batch() calls', () => {
+            const factory = createRowFactory();
+
+            expect(factory.build()).toEqual({ id: 1, slug: 'row-1' });
+            expect(factory.batch(2)).toEqual([
+                { id: 2, slug: 'row-2' },
+                { id: 3, slug: 'row-3' },
+            ]);
+            expect(factory.build().id).toBe(4);
+        });
+
+        it('keeps separate counters per sequence name and factory', () => {
+            const factory = new Factory<Row>((f) => ({
+                id: f.sequence('a'),
+                slug: String(f.sequence('b') * 10),
+            }));
+            const other = createRowFactory();
+
+            factory.batch(3);
+            expect(factory.build()).toEqual({ id: 4, slug: '40' });
+            expect(other.build().id).toBe(1);
+        });
+
+        it('shares counters with factories derived via extend() and compose()', async () => {
+            const factory = createRowFactory();
+            const extended = factory.extend<{ extra: boolean } & Row>((f) => ({
+                extra: true,
+                id: f.sequence('extended-id'),
+                slug: 'extended',
+            }));
+            const composed = factory.compose<{ flag: boolean } & Row>({
+                flag: true,
+            });
+
+            expect(factory.build().id).toBe(1);
+            // the base factory function still advances the shared 'id' sequence
+            expect(extended.build().id).toBe(1);
+            expect(composed.build().id).toBe(3);
+            expect((await factory.buildAsync()).id).toBe(4);
+        });
+
+        it('continues sequences in nested builds', () => {
+            interface Node {
+                child: Node | null;
+                id: number;
+            }
+
+            const factory = new Factory<Node>(
+                (f) => {
+                    const id = f.sequence('node');
+                    return { child: f.build(), id };
+                },
+                { maxDepth: 3 },
+            );
+
+            const node = factory.build();
+            expect(node.id).toBe(1);
+            expect(node.child?.id).toBe(2);
+            expect(node.child?.child?.id).toBe(3);
+            expect(node.child?.child?.child).toBeNull();
+        });
+
+        it('resets all or individual sequences', () => {
+            const factory = createRowFactory();
+            factory.batch(3);
+
+            factory.resetSequences('id');
+            expect(factory.build()).toEqual({ id: 1, slug: 'row-4' });
+
+            factory.resetSequences();
+            expect(factory.build()).toEqual({ id: 1, slug: 'row-1' });
+        });
+
+        it('resets counters of derived factories', () => {
+            const factory = createRowFactory();
+            const extended = factory.extend<Row>(() => ({
+                id: 0,
+                slug: 'extended',
+            }));
+            extended.batch(2);
+
+            factory.resetSequences();
+            expect(extended.build().slug).toBe('extended');
+            expect(factory.build().id).toBe(2);
+        });
+    });
+
+    describe('traits', () => {
+        interface Account {
+            name: string;
+            role: string;
+            verified: boolean;
+        }
+
+        const createAccountFactory = () =>
+            new Factory<Account>((factory) => ({
+                name: factory.person.firstName(),
+                role: 'user',
+                verified: false,
+            }))
+                .trait('admin', { role: 'admin' })
+                .trait('verified', () => ({ verified: true }))
+                .trait('owner', { role: 'owner' });
+
+        it('applies a trait in build()', () => {
+            const account = createAccountFactory().build(undefined, {
+                traits: ['admin'],
+            });
+            expect(account.role).toBe('admin');
+            expect(account.verified).toBe(false);
+        });
+
+        it('layers multiple traits in order before kwargs', () => {
+            const factory = createAccountFactory();
+
+            expect(
+                factory.build(undefined, { traits: ['admin', 'owner'] }).role,
+            ).toBe('owner');
+            expect(
+                factory.build(undefined, { traits: ['owner', 'admin'] }).role,
+            ).toBe('admin');
+
+            const account = factory.build(
+                { role: 'guest' },
+                { traits: ['admin', 'verified'] },
+            );
+            expect(account.role).toBe('guest');
+            expect(account.verified).toBe(true);
+        });
+
+        it('passes factory, iteration and kwargs to trait functions', () => {
+            const calls: [number, Partial<Account> | undefined][] = [];
+            const factory = createAccountFactory().trait(
+                'named',
+                (faker, iteration, kwargs) => {
+                    calls.push([iteration, kwargs]);
+                    return { name: faker.helpers.arrayElement(['x', 'y']) };
+                },
+            );
+
+            const accounts = factory.batch(
+                2,
+                { role: 'guest' },
+                {
+                    traits: ['named'],
+                },
+            );
+            expect(calls).toEqual([
+                [0, { role: 'guest' }],
+                [1, { role: 'guest' }],
+            ]);
+            accounts.forEach((account) => {
+                expect(['x', 'y']).toContain(account.name);
+            });
+        });
+
+        it('resolves generators in trait values', () => {
+            const factory = createAccountFactory();
+            const cycled = factory.trait('cycled', {
+                role: factory.iterate(['a', 'b']),
+            });
+
+            const accounts = cycled.batch(3, undefined, {
+                traits: ['cycled'],
+            });
+            expect(accounts.map((account) => account.role)).toEqual([
+                'a',
+                'b',
+                'a',
+            ]);
+        });
+
+        it('applies traits in batchAsync(), buildAsync() and async traits', async () => {
+            const factory = createAccountFactory().trait('remote', async () => {
+                await Promise.resolve();
+                return { name: 'remote' };
+            });
+
+            const account = await factory.buildAsync(undefined, {
+                traits: ['admin', 'remote'],
+            });
+            expect(account).toEqual({
+                name: 'remote',
+                role: 'admin',
+                verified: false,
+            });
+
+            const accounts = await factory.batchAsync(2, undefined, {
+                traits: ['verified'],
+            });
+            accounts.forEach((item) => {
+                expect(item.verified).toBe(true);
+            });
+        });
+
+        it('throws ConfigurationError for async traits in build()', () => {
+            const factory = createAccountFactory().trait('remote', async () => {
+                await Promise.resolve();
+                return { name: 'remote' };
+            });
+
+            expect(() =>
+                factory.build(undefined, { traits: ['remote'] }),
+            ).toThrow(ConfigurationError);
+        });
+
+        it('throws ConfigurationError for unknown traits', () => {
+            const factory = createAccountFactory();
+            expect(() =>
+                factory.build(undefined, {
+                    traits: ['missing' as 'admin'],
+                }),
+            ).toThrow('Unknown trait "missing"');
+        });
+
+        it('throws TypeError for invalid trait definitions', () => {
+            expect(() =>
+                createAccountFactory().trait('invalid', 'admin' as any),
+            ).toThrow('Trait must be an object or a function');
+        });
+
+        it('applies traits in create() and createMany()', async () => {
+            const adapter: PersistenceAdapter<Account> = {
+                create: vi.fn((data: Account) => Promise.resolve(data)),
+                createMany: vi.fn((data: Account[]) => Promise.resolve(data)),
+            };
+            const factory = createAccountFactory().withAdapter(adapter);
+
+            const account = await factory.create(undefined, {
+                traits: ['admin'],
+            });
+            expect(account.role).toBe('admin');
+
+            const accounts = await factory.createMany(2, undefined, {
+                traits: ['verified'],
+            });
+            accounts.forEach((item) => {
+                expect(item.verified).toBe(true);
+            });
+        });
+
+        it('inherits traits in extend() and compose()', () => {
+            interface Member extends Account {
+                team: string;
+            }
+
+            const factory = createAccountFactory();
+            const extended = factory.extend<Member>((faker) => ({
+                name: faker.person.firstName(),
+                role: 'member',
+                team: 'core',
+                verified: false,
+            }));
+            const composed = factory.compose<Member>({ team: 'core' });
+
+            expect(extended.build(undefined, { traits: ['admin'] }).role).toBe(
+                'admin',
+            );
+            expect(
+                composed.build(undefined, { traits: ['verified'] }).verified,
+            ).toBe(true);
+        });
+    });
+
+    describe('seeding', () => {
+        interface Player {
+            name: string;
+            score: number;
+            team: string;
+        }
+
+        const createPlayerFactory = (seed?: number) =>
+            new Factory<Player>(
+                (faker) => ({
+                    name: faker.person.fullName(),
+                    score: faker.number.int({ max: 100, min: 0 }),
+                    team: faker.sample(['red', 'green', 'blue', 'yellow']),
+                }),
+                { seed },
+            );
+
+        it('reproduces builds and batches with the seed option', () => {
+            expect(createPlayerFactory(42).batch(5)).toEqual(
+                createPlayerFactory(42).batch(5),
+            );
+            expect(createPlayerFactory(42).build()).not.toEqual(
+                createPlayerFactory(7).build(),
+            );
+        });
+
+        it('reseeds a copy of an existing factory with withSeed()', () => {
+            const factory = createPlayerFactory();
+
+            const first = factory.withSeed(1234).batch(3);
+            const second = factory.withSeed(1234).batch(3);
+
+            expect(second).toEqual(first);
+        });
+
+        it('leaves the original factory unseeded with withSeed()', () => {
+            const factory = createPlayerFactory(7);
+            const seeded = factory.withSeed(1234);
+
+            expect(seeded).not.toBe(factory);
+            expect(factory.build()).toEqual(createPlayerFactory(7).build());
+            expect(seeded.build()).toEqual(createPlayerFactory(1234).build());
+        });
+
+        it('makes sample() reproducible', () => {
+            const values = Array.from({ length: 20 }, (_, i) => i);
+
+            const takeTen = (factory: Factory<Player>) => {
+                const generator = factory.sample(values);
+                return Array.from({ length: 10 }, () => generator.next().value);
+            };
+
+            const first = takeTen(createPlayerFactory(99));
+            expect(takeTen(createPlayerFactory().withSeed(99))).toEqual(first);
+        });
+
+        it('seeds derived factories with the same value', () => {
+            const extend = (factory: Factory<Player>) =>
+                factory.extend<{ level: number } & Player>((faker) => ({
+                    level: faker.number.int({ max: 10, min: 1 }),
+                    name: faker.person.fullName(),
+                    score: 0,
+                    team: 'red',
+                }));
+
+            expect(extend(createPlayerFactory().withSeed(5)).batch(3)).toEqual(
+                extend(createPlayerFactory().withSeed(5)).batch(3),
+            );
+            expect(
+                createPlayerFactory().withSeed(5).compose({}).build(),
+            ).toEqual(createPlayerFactory(5).build());
+            expect(createPlayerFactory().withSeed(5).partial().build()).toEqual(
+                createPlayerFactory(5).build(),
+            );
+        });
+    });
+
+    describe('transient params', () => {
+        interface Author {
+            name: string;
+            posts: string[];
+        }
+
+        interface AuthorTransient {
+            postCount: number;
+            upcase: boolean;
+        }
+
+        const createAuthorFactory = () =>
+            new Factory<
+                Author,
+                FactoryOptions,
+                FactoryFunction<Author, AuthorTransient>
+            >((faker, _iteration, _kwargs, transient) => ({
+                name: faker.person.firstName(),
+                posts: Array.from(
+                    { length: transient?.postCount ?? 1 },
+                    (_, i) => `post-${i}`,
+                ),
+            }));
+
+        it('passes transient params to the factory function without merging them into the result', () => {
+            const author = createAuthorFactory().build(
+                { name: 'x' },
+                { transient: { postCount: 3 } },
+            );
+
+            expect(author).toEqual({
+                name: 'x',
+                posts: ['post-0', 'post-1', 'post-2'],
+            });
+            expect(author).not.toHaveProperty('postCount');
+        });
+
+        it('defaults transient params to an empty object', () => {
+            const transientValues: unknown[] = [];
+            const factory = new Factory<Author>(
+                (faker, _iteration, _kwargs, transient) => {
+                    transientValues.push(transient);
+                    return { name: faker.person.firstName(), posts: [] };
+                },
+            );
+
+            factory.build();
+            expect(transientValues).toEqual([{}]);
+        });
+
+        it('passes transient params to every instance in batch() and batchAsync()', async () => {
+            const factory = createAuthorFactory();
+
+            factory
+                .batch(3, undefined, { transient: { postCount: 2 } })
+                .forEach((author) => {
+                    expect(author.posts).toHaveLength(2);
+                });
+            (
+                await factory.batchAsync(2, undefined, {
+                    transient: { postCount: 4 },
+                })
+            ).forEach((author) => {
+                expect(author.posts).toHaveLength(4);
+            });
+        });
+
+        it('passes transient params to create() and createMany()', async () => {
+            const adapter: PersistenceAdapter<Author> = {
+                create: vi.fn((data: Author) => Promise.resolve(data)),
+                createMany: vi.fn((data: Author[]) => Promise.resolve(data)),
+            };
+            const factory = createAuthorFactory().withAdapter(adapter);
+
+            const author = await factory.create(undefined, {
+                transient: { postCount: 2 },
+            });
+            expect(author.posts).toHaveLength(2);
+
+            const authors = await factory.createMany(2, undefined, {
+                transient: { postCount: 0 },
+            });
+            authors.forEach((item) => {
+                expect(item.posts).toEqual([]);
+            });
+        });
+
+        it('passes transient params to hooks through the hook context', async () => {
+            const factory = createAuthorFactory()
+                .beforeBuild((params, { transient }) =>
+                    transient.upcase && params.name
+                        ? { ...params, name: params.name.toUpperCase() }
+                        : params,
+                )
+                .afterBuild((author, { transient }) => ({
+                    ...author,
+                    posts: transient.upcase
+                        ? author.posts.map((post) => post.toUpperCase())
+                        : author.posts,
+                }));
+
+            expect(
+                factory.build(
+                    { name: 'ada' },
+                    { transient: { postCount: 1, upcase: true } },
+                ),
+            ).toEqual({ name: 'ADA', posts: ['POST-0'] });
+            expect(
+                await factory.buildAsync(
+                    { name: 'ada' },
+                    { transient: { upcase: false } },
+                ),
+            ).toEqual({ name: 'ada', posts: ['post-0'] });
+        });
+
+        it('passes transient params to traits', () => {
+            const factory = createAuthorFactory().trait(
+                'prolific',
+                (_faker, _iteration, _kwargs, transient) => ({
+                    posts: Array.from(
+                        {
+                            length:
+                                ((transient?.postCount as number | undefined) ??
+                                    1) * 10,
+                        },
+                        (_, i) => `post-${i}`,
+                    ),
+                }),
+            );
+
+            const author = factory.build(undefined, {
+                traits: ['prolific'],
+                transient: { postCount: 2 },
+            });
+            expect(author.posts).toHaveLength(20);
+        });
+
+        it('forwards transient params through extend(), compose() and partial()', () => {
+            interface Blogger extends Author {
+                blog: string;
+            }
+
+            const factory = createAuthorFactory();
+            const extended = factory.extend<Blogger>(
+                (faker, _iteration, _kwargs, transient) => ({
+                    blog: `${String(transient?.postCount)} posts`,
+                    name: faker.person.firstName(),
+                    posts: [],
+                }),
+            );
+            const composed = factory.compose<Blogger>({ blog: 'blog' });
+
+            expect(
+                extended.build(undefined, { transient: { postCount: 2 } }),
+            ).toMatchObject({ blog: '2 posts' });
+            expect(
+                composed.build(undefined, { transient: { postCount: 2 } })
+                    .posts,
+            ).toHaveLength(2);
+            expect(
+                factory
+                    .partial()
+                    .build(undefined, { transient: { postCount: 3 } }).posts,
+            ).toHaveLength(3);
+        });
+    });
+
+    describe('unique', () => {
+        interface Member {
+            email: string;
+            score: number;
+            username: string;
+        }
+
+        const createMemberFactory = (emails: string[]) =>
+            new Factory<Member>((faker) => ({
+                email: faker.helpers.arrayElement(emails),
+                score: faker.number.int({ max: 1_000_000, min: 0 }),
+                username: faker.internet.username(),
+            }));
+
+        it('regenerates colliding fields within a batch', () => {
+            const factory = createMemberFactory(['a', 'b', 'c', 'd']).unique(
+                ['email'],
+                { maxRetries: 100, scope: 'batch' },
+            );
+
+            const members = factory.batch(4);
+            expect(new Set(members.map((m) => m.email)).size).toBe(4);
+            expect(new Set(factory.batch(4).map((m) => m.email)).size).toBe(4);
+        });
+
+        it('keeps values unique across calls with the factory scope', () => {
+            const factory = createMemberFactory(['a', 'b', 'c']).unique(
+                ['email'],
+                { maxRetries: 100 },
+            );
+
+            const emails = [
+                factory.build().email,
+                ...factory.batch(2).map((m) => m.email),
+            ];
+            expect(emails.sort()).toEqual(['a', 'b', 'c']);
+            expect(() => factory.build()).toThrow(UniqueConstraintError);
+
+            factory.resetUnique();
+            expect(factory.build().email).toBeDefined();
+        });
+
+        it('shares values between factories with the global scope', () => {
+            const first = createMemberFactory(['a', 'b']).unique(['email'], {
+                maxRetries: 100,
+                scope: 'global',
+            });
+            const second = createMemberFactory(['a', 'b']).unique(['email'], {
+                maxRetries: 100,
+                scope: 'global',
+            });
+
+            try {
+                const emails = [first.build().email, second.build().email];
+                expect(emails.sort()).toEqual(['a', 'b']);
+                expect(() => second.build()).toThrow(UniqueConstraintError);
+            } finally {
+                first.resetUnique();
+            }
+        });
+
+        it('regenerates only the colliding field by default', () => {
+            const factory = new Factory<Member>((faker, iteration) => ({
+                email: faker.helpers.arrayElement(['a', 'b']),
+                score: iteration,
+                username: `user-${iteration}`,
+            })).unique(['email'], { maxRetries: 100, scope: 'batch' });
+
+            const members = factory.batch(2, [
+                { username: 'x' },
+                { username: 'y' },
+            ]);
+            expect(members.map((m) => m.username)).toEqual(['x', 'y']);
+            expect(members.map((m) => m.score)).toEqual([0, 1]);
+        });
+
+        it('regenerates the whole object when configured', () => {
+            const scores: number[] = [];
+            const factory = new Factory<Member>((faker) => {
+                const score = scores.length;
+                scores.push(score);
+                return {
+                    email: faker.helpers.arrayElement(['a', 'b']),
+                    score,
+                    username: `user-${score}`,
+                };
+            }).unique(['email'], {
+                maxRetries: 100,
+                regenerate: 'object',
+                scope: 'batch',
+            });
+
+            const [first, second] = factory.batch(2);
+            expect(second.username).toBe(`user-${second.score}`);
+            expect(first.email).not.toBe(second.email);
+        });
+
+        it('rejects a colliding override without retrying', () => {
+            let calls = 0;
+            const factory = new Factory<Member>((faker) => {
+                calls++;
+                return {
+                    email: faker.internet.email(),
+                    score: 0,
+                    username: faker.internet.username(),
+                };
+            }).unique(['email'], { maxRetries: 100 });
+
+            factory.build({ email: 'a@b' });
+            calls = 0;
+
+            expect(() => factory.build({ email: 'a@b' })).toThrow(
+                'The override of "email" collides with an existing unique value (scope: factory). Overridden values are not regenerated; pass a different value or call resetUnique().',
+            );
+            expect(calls).toBe(1);
+            expect(() => factory.batch(2, { email: 'c@d' })).toThrow(
+                UniqueConstraintError,
+            );
+            factory.resetUnique();
+            expect(factory.build({ email: 'a@b' }).email).toBe('a@b');
+        });
+
+        it('rejects a colliding override in async builds', async () => {
+            const factory = createMemberFactory(['a', 'b']).unique(['email']);
+
+            await factory.buildAsync({ email: 'x' });
+
+            await expect(factory.buildAsync({ email: 'x' })).rejects.toThrow(
+                'The override of "email" collides',
+            );
+        });
+
+        it('throws a descriptive error when the value space is exhausted', () => {
+            const factory = createMemberFactory(['a', 'b']).unique(
+                ['email', 'username'],
+                { maxRetries: 5, scope: 'batch' },
+            );
+
+            expect(() =>
+                factory.batch(3, [{ email: 'a' }, { email: 'b' }, {}]),
+            ).toThrow(
+                'Unable to generate a unique value for "email" (scope: batch) after 5 retries. The value space may be exhausted: 2 distinct values are already in use.',
+            );
+            expect(() => factory.batch(2, { email: 'same' })).toThrow(
+                UniqueConstraintError,
+            );
+        });
+
+        it('rejects an invalid maxRetries', () => {
+            expect(() =>
+                createMemberFactory(['a']).unique(['email'], {
+                    maxRetries: -1,
+                }),
+            ).toThrow(ConfigurationError);
+        });
+
+        it('applies unique constraints in batchAsync() and createMany()', async () => {
+            const adapter: PersistenceAdapter<Member> = {
+                create: vi.fn((data: Member) => Promise.resolve(data)),
+                createMany: vi.fn((data: Member[]) => Promise.resolve(data)),
+            };
+            const factory = createMemberFactory(['a', 'b', 'c', 'd', 'e'])
+                .unique(['email'], { maxRetries: 200, scope: 'batch' })
+                .withAdapter(adapter);
+
+            const members = await factory.batchAsync(5);
+            expect(new Set(members.map((m) => m.email)).size).toBe(5);
+
+            const created = await factory.createMany(5);
+            expect(new Set(created.map((m) => m.email)).size).toBe(5);
+        });
+    });
+
+    describe('depth fallback', () => {
+        interface Category {
+            children?: Category[] | null;
+            name: string;
+            parent?: Category | null;
+        }
+
+        const createCategoryFactory = (options: FactoryOptions = {}) =>
+            new Factory<Category>(
+                (factory) => ({
+                    children: factory.batch(2),
+                    name: factory.commerce.department(),
+                    parent: factory.build({ children: [] }),
+                }),
+                { maxDepth: 2, ...options },
+            );
+
+        it('returns null by default', () => {
+            const category = createCategoryFactory().build();
+
+            expect(category.children![0].children).toBeNull();
+            expect(category.parent!.parent).toBeNull();
+        });
+
+        it('returns undefined and keeps the key with undefined', () => {
+            const category = createCategoryFactory({
+                depthFallback: undefined,
+            }).build();
+
+            expect(category.children![0]).toHaveProperty('children', undefined);
+            expect(category.parent).toHaveProperty('parent', undefined);
+        });
+
+        it('omits the key with omit', () => {
+            const category = createCategoryFactory({
+                depthFallback: 'omit',
+            }).build();
+
+            expect(category.children![0]).not.toHaveProperty('children');
+            expect(category.children![0]).not.toHaveProperty('parent');
+            expect(category.children![0].name).toBeDefined();
+        });
+
+        it('returns an empty batch and rejects a root build with omit beyond maxDepth', async () => {
+            const factory = createCategoryFactory({
+                depthFallback: 'omit',
+                maxDepth: 0,
+            });
+
+            expect(factory.batch(2)).toEqual([]);
+            await expect(factory.batchAsync(2)).resolves.toEqual([]);
+            expect(() => factory.build()).toThrow(ConfigurationError);
+            await expect(factory.buildAsync()).rejects.toThrow(
+                "The 'omit' depth fallback cannot leave out the root instance",
+            );
+        });
+
+        it('removes omitted instances from arrays', () => {
+            const factory = new Factory<{ items: unknown[] }>(
+                (faker) => ({ items: [faker.build(), 'kept'] }),
+                { depthFallback: 'omit', maxDepth: 1 },
+            );
+
+            expect(factory.build().items).toEqual(['kept']);
+        });
+
+        it('returns empty objects and arrays with empty', async () => {
+            const factory = createCategoryFactory({ depthFallback: 'empty' });
+            const category = factory.build();
+
+            expect(category.children![0].children).toEqual([]);
+            expect(category.parent!.parent).toEqual({});
+
+            const built = await factory.buildAsync();
+            expect(built.children![0].children).toEqual([]);
+            expect(built.parent!.parent).toEqual({});
+        });
+
+        it('calls a fallback function with the factory and depth', () => {
+            const fallback = vi.fn(() => ({ name: 'stub' }));
+            const factory = createCategoryFactory({ depthFallback: fallback });
+            const category = factory.build();
+
+            expect(category.children![0].children).toEqual([
+                { name: 'stub' },
+                { name: 'stub' },
+            ]);
+            expect(category.parent!.parent).toEqual({ name: 'stub' });
+            expect(fallback).toHaveBeenCalledWith(factory, 2);
+        });
+
+        it('uses the fallback of the enclosing factory unless overridden', () => {
+            const CategoryFactory = createCategoryFactory();
+            const OmittingCategoryFactory = createCategoryFactory({
+                depthFallback: 'omit',
+            });
+            const ShopFactory = new Factory<{
+                categories: Category[];
+                featured: Category;
+            }>(
+                (faker) => ({
+                    categories: faker.use(() => CategoryFactory.batch(1)),
+                    featured: faker.use(() => OmittingCategoryFactory.build()),
+                }),
+                { depthFallback: 'empty' },
+            );
+
+            const shop = ShopFactory.build();
+            expect(shop.categories[0].children).toEqual([]);
+            expect(shop.featured).not.toHaveProperty('children');
+            expect(shop.featured.name).toBeDefined();
+        });
+    });
+
+    describe('strict mode', () => {
+        interface Author {
+            id: string;
+            posts: Article[];
+        }
+
+        interface Article {
+            author?: Author;
+            comments: { body: string }[];
+            title: string;
+        }
+
+        interface TreeNode {
+            children: null | TreeNode[];
+            value: string;
+        }
+
+        const createFactories = (authorOptions: FactoryOptions = {}) => {
+            const AuthorFactory: Factory<Author> = new Factory<Author>(
+                (faker) => ({
+                    id: faker.string.uuid(),
+                    posts: faker.use(() => ArticleFactory.batch(2)),
+                }),
+                authorOptions,
+            );
+            const ArticleFactory: Factory<Article> = new Factory<Article>(
+                (faker) => ({
+                    author: faker.use(() => AuthorFactory.build()),
+                    comments: [],
+                    title: faker.lorem.sentence(),
+                }),
+                { strict: true },
+            );
+            return { ArticleFactory, AuthorFactory };
+        };
+
+        it('throws CircularReferenceError with the path of the cycle', () => {
+            const { AuthorFactory } = createFactories({ strict: true });
+
+            expect(() => AuthorFactory.build()).toThrow(CircularReferenceError);
+            expect(() => AuthorFactory.build()).toThrow(
+                'Circular reference detected: Factory.posts[0].author -> Factory',
+            );
+        });
+
+        it('uses the names of named factories in the path', () => {
+            const { AuthorFactory } = createFactories({
+                name: 'Author',
+                strict: true,
+            });
+
+            expect(() => AuthorFactory.build()).toThrow(
+                'Circular reference detected: Author.posts[0].author -> Author',
+            );
+        });
+
+        it('includes batch indexes and nested keys in the path', () => {
+            const { ArticleFactory } = createFactories({ strict: true });
+
+            expect(() => ArticleFactory.batch(3)).toThrow(
+                'Circular reference detected: Factory[0].author.posts -> Factory',
+            );
+        });
+
+        it('reports cycles in async builds', async () => {
+            const AuthorFactory: Factory<Author> = new Factory<Author>(
+                async (faker) => ({
+                    id: faker.string.uuid(),
+                    posts: await ArticleFactory.batchAsync(2),
+                }),
+                { strict: true },
+            );
+            const ArticleFactory: Factory<Article> = new Factory<Article>(
+                async (faker) => ({
+                    author: await AuthorFactory.buildAsync(),
+                    comments: [],
+                    title: faker.lorem.sentence(),
+                }),
+            );
+
+            await expect(AuthorFactory.buildAsync()).rejects.toThrow(
+                'Circular reference detected: Factory[0] -> Factory',
+            );
+        });
+
+        it('throws for self-references through the factory instead of returning null', () => {
+            const TreeNodeFactory = new Factory<TreeNode>(
+                (factory) => ({
+                    children: factory.batch(2),
+                    value: factory.string.alphanumeric(5),
+                }),
+                { maxDepth: 3, strict: true },
+            );
+
+            expect(() => TreeNodeFactory.build()).toThrow(
+                'Circular reference detected: Factory -> Factory',
+            );
+        });
+
+        it('allows the same factory in sibling branches', () => {
+            const CommentFactory = new Factory<{ body: string }>((faker) => ({
+                body: faker.lorem.sentence(),
+            }));
+            const ArticleFactory = new Factory<Article>(
+                (faker) => ({
+                    comments: faker.use(() => CommentFactory.batch(2)),
+                    title: faker.lorem.sentence(),
+                }),
+                { strict: true },
+            );
+            const AuthorFactory = new Factory<Author>(
+                (faker) => ({
+                    id: faker.string.uuid(),
+                    posts: faker.use(() => ArticleFactory.batch(2)),
+                }),
+                { strict: true },
+            );
+
+            const author = AuthorFactory.build();
+            expect(author.posts).toHaveLength(2);
+            expect(author.posts[1].comments).toHaveLength(2);
+        });
+    });
+
+    describe('back-references', () => {
+        interface Reader {
+            name: string;
+            reviews: Review[];
+        }
+
+        interface Review {
+            comments: ReviewComment[];
+            reader: Reader;
+            title: string;
+        }
+
+        interface ReviewComment {
+            body: string;
+            reader?: Reader;
+            review?: Review;
+        }
+
+        const CommentFactory = new Factory<ReviewComment>((faker) => ({
+            body: faker.lorem.sentence(),
+            reader: faker.root(ReaderFactory),
+            review: faker.parent(ReviewFactory),
+        }));
+        const ReviewFactory: Factory<Review> = new Factory<Review>((faker) => ({
+            comments: faker.use(() => CommentFactory.batch(2)),
+            reader:
+                faker.parent(ReaderFactory) ??
+                faker.use(() => ReaderFactory.build({ reviews: [] })),
+            title: faker.lorem.sentence(),
+        }));
+        const ReaderFactory: Factory<Reader> = new Factory<Reader>((faker) => ({
+            name: faker.person.fullName(),
+            reviews: faker.use(() => ReviewFactory.batch(2)),
+        })).afterBuild((reader) => ({ ...reader, name: reader.name.trim() }));
+
+        it('links children to the instance returned by the parent build', () => {
+            const reader = ReaderFactory.build();
+
+            expect(reader.reviews).toHaveLength(2);
+            for (const review of reader.reviews) {
+                expect(review.reader).toBe(reader);
+            }
+        });
+
+        it('links grandchildren to the root and their parent', () => {
+            const reader = ReaderFactory.build();
+            const [review] = reader.reviews;
+
+            expect(review.comments[0].reader).toBe(reader);
+            expect(review.comments[0].review).toBe(review);
+        });
+
+        it('returns undefined outside a nested build', () => {
+            const comment = CommentFactory.build();
+            expect(comment.reader).toBeUndefined();
+            expect(comment.review).toBeUndefined();
+
+            const review = ReviewFactory.build();
+            expect(review.reader.reviews).toEqual([]);
+            expect(review.comments[0].reader).toBeUndefined();
+            expect(review.comments[0].review).toBe(review);
+        });
+
+        it('returns the build directly above without a factory', () => {
+            const NoteFactory = new Factory<{ parent: unknown }>((faker) => ({
+                parent: faker.parent(),
+            }));
+            const HolderFactory = new Factory<{ notes: { parent: unknown }[] }>(
+                (faker) => ({ notes: faker.use(() => NoteFactory.batch(1)) }),
+            );
+
+            const holder = HolderFactory.build();
+            expect(holder.notes[0].parent).toBe(holder);
+        });
+
+        it('skips enclosing builds of other factories and of the same factory', () => {
+            interface Post {
+                author: Reader;
+                related: Post[];
+            }
+            const PostFactory: Factory<Post> = new Factory<Post>((faker) => ({
+                author:
+                    faker.parent(ReaderFactory) ??
+                    faker.use(() => ReaderFactory.build({ reviews: [] })),
+                related: faker.use(() =>
+                    faker.parent(PostFactory) ? [] : PostFactory.batch(2),
+                ),
+            }));
+            const AuthorFactory = new Factory<{ name: string; posts: Post[] }>(
+                (faker) => ({
+                    name: faker.person.fullName(),
+                    posts: faker.use(() => PostFactory.batch(2)),
+                }),
+            );
+            const WriterFactory = ReaderFactory.withOptions({}).extend<
+                { posts: Post[] } & Reader
+            >((faker) => ({
+                name: faker.person.fullName(),
+                posts: faker.use(() => PostFactory.batch(1)),
+                reviews: [],
+            }));
+
+            const writer = WriterFactory.build();
+            expect(writer.posts[0].author).toBe(writer);
+            expect(writer.posts[0].related[0].author).toBe(writer);
+
+            // AuthorFactory is not based on ReaderFactory, so the posts get their own reader
+            const author = AuthorFactory.build();
+            expect(author.posts[0].author).not.toBe(author);
+            expect(author.posts[0].author.reviews).toEqual([]);
+        });
+
+        it('keeps references in batches and async builds', async () => {
+            const AsyncReviewFactory: Factory<Review> = new Factory<Review>(
+                async (faker) => {
+                    const title = await Promise.resolve(faker.lorem.word());
+                    return {
+                        comments: [],
+                        reader: faker.parent(AsyncReaderFactory)!,
+                        title,
+                    };
+                },
+            );
+            const AsyncReaderFactory: Factory<Reader> = new Factory<Reader>(
+                async (faker) => ({
+                    name: faker.person.fullName(),
+                    reviews: await AsyncReviewFactory.batchAsync(3),
+                }),
+            );
+
+            const readers = await AsyncReaderFactory.batchAsync(2);
+            for (const reader of readers) {
+                expect(reader.reviews).toHaveLength(3);
+                for (const review of reader.reviews) {
+                    expect(review.reader).toBe(reader);
+                }
+            }
+        });
+    });
+
+    describe('immutable builders', () => {
+        interface Account {
+            id: number;
+            name: string;
+            role: string;
+        }
+
+        const createAccountFactory = () =>
+            new Factory<Account>((faker) => ({
+                id: faker.sequence('account'),
+                name: faker.person.fullName(),
+                role: 'user',
+            }))
+                .trait('admin', { role: 'admin' })
+                .afterBuild((account) => ({
+                    ...account,
+                    name: account.name.toUpperCase(),
+                }));
+
+        it('clones the factory function, options, traits and hooks', () => {
+            const base = createAccountFactory().withOptions({ maxDepth: 2 });
+            const copy = base.clone();
+
+            expect(copy).not.toBe(base);
+            expect(copy).toBeInstanceOf(Factory);
+            expect(copy.options?.maxDepth).toBe(2);
+
+            const account = copy.build(undefined, { traits: ['admin'] });
+            expect(account.role).toBe('admin');
+            expect(account.name).toBe(account.name.toUpperCase());
+        });
+
+        it('does not leak hooks registered on a clone back to the original', () => {
+            const base = createAccountFactory();
+            base.clone().afterBuild((account) => ({ ...account, role: 'x' }));
+
+            expect(base.build().role).toBe('user');
+        });
+
+        it('copies sequence counters instead of sharing them', () => {
+            const base = createAccountFactory();
+            base.build();
+            const copy = base.clone();
+
+            expect(copy.build().id).toBe(2);
+            expect(copy.build().id).toBe(3);
+            expect(base.build().id).toBe(2);
+        });
+
+        it('adds hooks to a copy with withHooks', () => {
+            const base = createAccountFactory();
+            const afterBatch = vi.fn((accounts: Account[]) => accounts);
+            const copy = base.withHooks({
+                afterBatch,
+                afterBuild: [
+                    (account) => ({ ...account, role: 'editor' }),
+                    (account) => ({ ...account, name: `${account.name}!` }),
+                ],
+            });
+
+            const [account] = copy.batch(1);
+            expect(account.role).toBe('editor');
+            expect(account.name).toBe(
+                `${account.name.slice(0, -1).toUpperCase()}!`,
+            );
+            expect(afterBatch).toHaveBeenCalledOnce();
+
+            base.batch(1);
+            expect(afterBatch).toHaveBeenCalledOnce();
+            expect(base.build().role).toBe('user');
+        });
+
+        it('returns a copy from withAdapter', async () => {
+            const adapter: PersistenceAdapter<Account> = {
+                create: vi.fn((data: Account) => Promise.resolve(data)),
+                createMany: vi.fn((data: Account[]) => Promise.resolve(data)),
+            };
+            const base = createAccountFactory();
+            const persisted = base.withAdapter(adapter);
+
+            expect(persisted).not.toBe(base);
+            await persisted.create();
+            expect(adapter.create).toHaveBeenCalledOnce();
+            await expect(base.create()).rejects.toThrow(
+                'No persistence adapter configured',
+            );
+        });
+
+        it('merges options with withOptions and keeps the seed', () => {
+            const base = createAccountFactory().withSeed(42);
+            const copy = base.withOptions({ maxDepth: 1 });
+
+            expect(copy.options?.maxDepth).toBe(1);
+            expect(base.options?.maxDepth).toBe(5);
+            expect(copy.build().name).toBe(
+                createAccountFactory().withSeed(42).build().name,
+            );
+        });
+
+        it('changes the locale with withLocale', () => {
+            const base = new Factory<{ city: string }>((faker) => ({
+                city: faker.location.city(),
+            }));
+            const copy = base.withLocale([de, en]);
+
+            expect(copy.rawDefinitions.metadata?.code).toBe('de');
+            expect(base.rawDefinitions.metadata?.code).toBe('en');
+        });
+
+        it('copies unique constraints and tracked values', () => {
+            const factory = new Factory<{ email: string }>((faker) => ({
+                email: faker.helpers.arrayElement(['a', 'b']),
+            })).unique(['email'], { maxRetries: 100 });
+            const first = factory.build().email;
+            const copy = factory.clone();
+
+            expect(copy.build().email).not.toBe(first);
+            expect(() => copy.build()).toThrow(UniqueConstraintError);
+            expect(factory.build().email).not.toBe(first);
+        });
+    });
+
+    describe('associations', () => {
+        interface Post {
+            author?: Writer;
+            authorId: string;
+            id: string;
+            title: string;
+        }
+
+        interface Writer {
+            id: string;
+            name: string;
+            posts: Post[];
+        }
+
+        const createTable = <T extends { id: string }>(
+            table: string,
+            log: string[],
+        ): PersistenceAdapter<T> => {
+            let nextId = 0;
+            const insert = (data: T): T => ({
+                ...data,
+                id: `${table}-${++nextId}`,
+            });
+            return {
+                create: vi.fn((data: T) => {
+                    log.push(`${table}:create`);
+                    return Promise.resolve(insert(data));
+                }),
+                createMany: vi.fn((data: T[]) => {
+                    log.push(`${table}:createMany(${data.length})`);
+                    return Promise.resolve(data.map(insert));
+                }),
+            };
+        };
+
+        const createFactories = (log?: string[]) => {
+            let PostFactory = new Factory<Post>((faker) => ({
+                authorId: '',
+                id: faker.string.uuid(),
+                title: faker.lorem.sentence(),
+            }));
+            let WriterFactory = new Factory<Writer>((faker) => ({
+                id: faker.string.uuid(),
+                name: faker.person.fullName(),
+                posts: [],
+            })).afterBuild((writer) => ({ ...writer }));
+            if (log) {
+                PostFactory = PostFactory.withAdapter(
+                    createTable<Post>('posts', log),
+                );
+                WriterFactory = WriterFactory.withAdapter(
+                    createTable<Writer>('writers', log),
+                );
+            }
+            PostFactory.belongsTo('author', WriterFactory, {
+                foreignKey: 'authorId',
+            });
+            WriterFactory.hasMany('posts', PostFactory, {
+                count: 3,
+                inverse: 'authorId',
+            });
+            return { PostFactory, WriterFactory };
+        };
+
+        it('builds the related instance and its foreign key with belongsTo()', () => {
+            const { PostFactory } = createFactories();
+            const post = PostFactory.build();
+
+            expect(post.author).toBeDefined();
+            expect(post.authorId).toBe(post.author!.id);
+            expect(post.author!.posts).toHaveLength(3);
+        });
+
+        it('builds related instances linked to the returned instance with hasMany()', () => {
+            const { WriterFactory } = createFactories();
+            const writer = WriterFactory.build();
+
+            expect(writer.posts).toHaveLength(3);
+            for (const post of writer.posts) {
+                expect(post.authorId).toBe(writer.id);
+                expect(post.author).toBe(writer);
+            }
+        });
+
+        it('respects overrides of the association fields', () => {
+            const { PostFactory, WriterFactory } = createFactories();
+            const writer = WriterFactory.build({ posts: [] });
+            expect(writer.posts).toEqual([]);
+
+            const post = PostFactory.build({ author: writer });
+            expect(post.author).toEqual(writer);
+            expect(post.authorId).toBe(writer.id);
+
+            const orphan = PostFactory.build({ authorId: 'writer-1' });
+            expect(orphan.author).toBeUndefined();
+            expect(orphan.authorId).toBe('writer-1');
+        });
+
+        it('draws the number of related instances from a range', () => {
+            const TeamFactory = new Factory<Writer>((faker) => ({
+                id: faker.string.uuid(),
+                name: faker.company.name(),
+                posts: [],
+            })).hasMany('posts', createFactories().PostFactory, {
+                count: { max: 4, min: 2 },
+                inverse: 'authorId',
+            });
+
+            for (const team of TeamFactory.batch(10)) {
+                expect(team.posts.length).toBeGreaterThanOrEqual(2);
+                expect(team.posts.length).toBeLessThanOrEqual(4);
+            }
+        });
+
+        it('links associations in async builds', async () => {
+            const { PostFactory, WriterFactory } = createFactories();
+            const writer = await WriterFactory.buildAsync();
+            for (const post of writer.posts) {
+                expect(post.author).toBe(writer);
+            }
+
+            const post = await PostFactory.buildAsync();
+            expect(post.authorId).toBe(post.author!.id);
+        });
+
+        it('inherits associations in derived factories', () => {
+            const { WriterFactory } = createFactories();
+            const derived = WriterFactory.compose({ name: 'Ann' }).clone();
+
+            expect(derived.build().posts).toHaveLength(3);
+        });
+
+        it('persists the related instance before the instance in create()', async () => {
+            const log: string[] = [];
+            const { PostFactory } = createFactories(log);
+            const post = await PostFactory.create();
+
+            expect(log).toEqual([
+                'writers:create',
+                'posts:createMany(3)',
+                'posts:create',
+            ]);
+            expect(post.id).toBe('posts-4');
+            expect(post.author!.id).toBe('writers-1');
+            expect(post.authorId).toBe('writers-1');
+        });
+
+        it('persists related instances after the instance in create()', async () => {
+            const log: string[] = [];
+            const { WriterFactory } = createFactories(log);
+            const writer = await WriterFactory.create();
+
+            expect(log).toEqual(['writers:create', 'posts:createMany(3)']);
+            expect(writer.id).toBe('writers-1');
+            expect(writer.posts.map((post) => post.id)).toEqual([
+                'posts-1',
+                'posts-2',
+                'posts-3',
+            ]);
+            for (const post of writer.posts) {
+                expect(post.authorId).toBe('writers-1');
+                expect(post.author).toBe(writer);
+            }
+        });
+
+        it('persists associations of every instance in createMany()', async () => {
+            const log: string[] = [];
+            const { WriterFactory } = createFactories(log);
+            const writers = await WriterFactory.createMany(2);
+
+            expect(log).toEqual([
+                'writers:createMany(2)',
+                'posts:createMany(3)',
+                'posts:createMany(3)',
+            ]);
+            expect(writers[1].posts[0].authorId).toBe('writers-2');
+        });
+
+        it('rejects associations of factories without an adapter in create()', async () => {
+            const log: string[] = [];
+            const { PostFactory, WriterFactory } = createFactories();
+
+            await expect(
+                PostFactory.withAdapter(
+                    createTable<Post>('posts', log),
+                ).create(),
+            ).rejects.toThrow(ConfigurationError);
+            await expect(
+                WriterFactory.withAdapter(
+                    createTable<Writer>('writers', log),
+                ).createMany(2),
+            ).rejects.toThrow(
+                /Cannot persist the "posts" association of .*has no default adapter/,
+            );
+            expect(log).toEqual([]);
+
+            const writer = await WriterFactory.withAdapter(
+                createTable<Writer>('writers', log),
+            ).create({ posts: [] });
+            expect(writer.posts).toEqual([]);
+        });
+    });
+
+    describe('scenario', () => {
+        interface Member {
+            id: string;
+            tenant?: Tenant;
+            tenantId: string;
+        }
+
+        interface Tenant {
+            id: string;
+            name: string;
+        }
+
+        const createFactories = (log?: string[]) => {
+            const TenantFactory = new Factory<Tenant>((faker) => ({
+                id: faker.string.uuid(),
+                name: faker.company.name(),
+            }));
+            const MemberFactory = new Factory<Member>((faker) => ({
+                id: faker.string.uuid(),
+                tenantId: '',
+            }));
+            if (!log) {
+                return { members: MemberFactory, tenants: TenantFactory };
+            }
+
+            const createAdapter = <T extends { id: string }>(
+                table: string,
+            ): PersistenceAdapter<T> => ({
+                create: (data: T) => Promise.resolve(data),
+                createMany: (data: T[]) => {
+                    log.push(table);
+                    return Promise.resolve(
+                        data.map((item, i) => ({
+                            ...item,
+                            id: `${table}-${i + 1}`,
+                        })),
+                    );
+                },
+            });
+            return {
+                members: MemberFactory.withAdapter(createAdapter('members')),
+                tenants: TenantFactory.withAdapter(createAdapter('tenants')),
+            };
+        };
+
+        it('builds the number of instances of every entry', () => {
+            const world = scenario(createFactories(), {
+                members: { count: 10, tenant: pick('tenants') },
+                tenants: 2,
+            }).build();
+
+            expect(world.tenants).toHaveLength(2);
+            expect(world.members).toHaveLength(10);
+            for (const member of world.members) {
+                expect(world.tenants).toContainEqual(member.tenant);
+            }
+        });
+
+        it('picks fields of the instances of other entries', async () => {
+            const world = await scenario(createFactories(), {
+                members: { count: 5, tenantId: pick('tenants', 'id') },
+                tenants: 3,
+            }).buildAsync();
+
+            const tenantIds = world.tenants.map((tenant) => tenant.id);
+            for (const member of world.members) {
+                expect(tenantIds).toContain(member.tenantId);
+            }
         });
 
-        it('allows customizing max depth', () => {
-            const TreeNodeFactory = new Factory<TreeNode>(
-                (factory) => ({
-                    children: factory.batch(1),
-                    value: factory.string.alphanumeric(5),
-                }),
-                { maxDepth: 2 },
-            );
+        it('builds only the entries of the spec', () => {
+            const world = scenario(createFactories(), { tenants: 1 }).build();
 
-            const tree = TreeNodeFactory.build();
-            expect(tree.value).toBeDefined();
-            expect(tree.children).toHaveLength(1);
-            expect(tree.children![0].children).toBeNull();
+            expect(Object.keys(world)).toEqual(['tenants']);
         });
 
-        it('handles depth limit correctly with build overrides', () => {
-            const TreeNodeFactory = new Factory<TreeNode>(
-                (factory) => ({
-                    children: [factory.build({ value: 'child' })],
-                    value: factory.string.alphanumeric(5),
-                }),
-                { maxDepth: 2 },
-            );
+        it('persists entries in dependency order in create()', async () => {
+            const log: string[] = [];
+            const world = await scenario(createFactories(log), {
+                members: { count: 4, tenantId: pick('tenants', 'id') },
+                tenants: 2,
+            }).create();
 
-            const tree = TreeNodeFactory.build();
-            expect(tree.value).toBeDefined();
-            expect(tree.children).toHaveLength(1);
-            expect(tree.children![0].value).toBe('child');
+            expect(log).toEqual(['tenants', 'members']);
+            expect(world.members.map((member) => member.id)).toEqual([
+                'members-1',
+                'members-2',
+                'members-3',
+                'members-4',
+            ]);
+            for (const member of world.members) {
+                expect(['tenants-1', 'tenants-2']).toContain(member.tenantId);
+            }
         });
 
-        it('returns null for batch when max depth exceeded', () => {
-            const TreeNodeFactory = new Factory<TreeNode>(
-                (factory) => ({
-                    children: factory.batch(2),
-                    value: 'node',
+        it('throws for invalid specs', () => {
+            const factories = createFactories();
+
+            expect(() => scenario(factories, { projects: 1 } as never)).toThrow(
+                'No factory registered for scenario entry "projects".',
+            );
+            expect(() =>
+                scenario(factories, {
+                    members: { count: 1, tenant: pick('tenants') },
                 }),
-                { maxDepth: 1 },
+            ).toThrow(ConfigurationError);
+            expect(() =>
+                scenario(factories, {
+                    members: { count: 1, tenantId: pick('tenants', 'id') },
+                    tenants: { count: 1, name: pick('members', 'id') },
+                }),
+            ).toThrow(
+                'Circular scenario dependency: members -> tenants -> members',
+            );
+            expect(() =>
+                scenario(factories, {
+                    members: { count: 1, tenant: pick('tenants') },
+                    tenants: 0,
+                }).build(),
+            ).toThrow(
+                'Scenario entry "members" picks from "tenants", which has no instances.',
             );
+        });
+    });
 
-            const tree = TreeNodeFactory.build();
-            expect(tree.value).toBe('node');
-            expect(tree.children).toBeNull();
+    describe('FactoryRegistry', () => {
+        interface Label {
+            text: string;
+        }
+
+        const LabelFactory = new Factory<Label>(
+            (faker) => ({ text: faker.lorem.word() }),
+            { name: 'Label' },
+        );
+        const NumberFactory = new Factory<{ value: number }>((faker) => ({
+            value: faker.number.int(),
+        }));
+
+        it('looks up registered factories by name', () => {
+            const registry = new FactoryRegistry()
+                .register('Label', LabelFactory)
+                .register('Number', NumberFactory);
+
+            expect(registry.get('Label')).toBe(LabelFactory);
+            expect(typeof registry.get('Number').build().value).toBe('number');
+            expect(registry.has('Label')).toBe(true);
+            expect(registry.has('User')).toBe(false);
+            expect(registry.names()).toEqual(['Label', 'Number']);
         });
 
-        it('handles other factory methods through proxy', () => {
-            interface TestNode {
-                children?: TestNode[];
-                type: string;
-                value: string;
-            }
+        it('registers the factories passed to the constructor', () => {
+            const registry = new FactoryRegistry({ Label: LabelFactory });
 
-            const TestNodeFactory = new Factory<TestNode>(
-                (factory) => ({
-                    children: factory.batch(1),
-                    type: factory.sample(['A', 'B', 'C']).next().value,
-                    value: factory.string.uuid(),
-                }),
-                { maxDepth: 2 },
+            expect(registry.get('Label')).toBe(LabelFactory);
+        });
+
+        it('throws for duplicate and unknown names', () => {
+            const registry = new FactoryRegistry({ Label: LabelFactory });
+
+            expect(() => registry.register('Label', NumberFactory)).toThrow(
+                'A factory is already registered as "Label".',
+            );
+            expect(() =>
+                // @ts-expect-error - unknown names are rejected by the type
+                registry.get('User'),
+            ).toThrow(
+                'No factory registered as "User". Registered factories: Label.',
+            );
+            expect(() => new FactoryRegistry().get('User' as never)).toThrow(
+                ConfigurationError,
             );
+        });
 
-            const node = TestNodeFactory.build();
-            expect(node.value).toBeDefined();
-            expect(['A', 'B', 'C']).toContain(node.type);
-            expect(node.children).toHaveLength(1);
+        it('builds scenarios from the registered factories', () => {
+            const registry = new FactoryRegistry()
+                .register('Label', LabelFactory)
+                .register('Number', NumberFactory);
+
+            const world = registry
+                .scenario({ Label: { count: 2, text: 'fixed' }, Number: 1 })
+                .build();
+
+            expect(world.Label).toEqual([{ text: 'fixed' }, { text: 'fixed' }]);
+            expect(world.Number).toHaveLength(1);
         });
     });
 
@@ -957,6 +2681,431 @@ describe('Factory class functionality', () => {
                 'Incorrect type returned by hook',
             );
         });
+
+        it('applies beforeBuild and afterBuild hooks to every instance in batch()', () => {
+            const UserFactory = new Factory<User>((factory) => ({
+                email: '',
+                firstName: factory.person.firstName(),
+                lastName: factory.person.lastName(),
+            }))
+                .beforeBuild((params) => ({ ...params, lastName: 'Doe' }))
+                .afterBuild((user) => ({
+                    ...user,
+                    email: `${user.firstName}.${user.lastName}@example.com`,
+                }));
+
+            const users = UserFactory.batch(3, [{ firstName: 'A' }]);
+            expect(users.map((user) => user.email)).toEqual([
+                'A.Doe@example.com',
+                'A.Doe@example.com',
+                'A.Doe@example.com',
+            ]);
+            UserFactory.batch(2).forEach((user) => {
+                expect(user.email).toBe(`${user.firstName}.Doe@example.com`);
+            });
+        });
+
+        it('applies async hooks to every instance in batchAsync()', async () => {
+            const UserFactory = new Factory<User>((factory) => ({
+                email: '',
+                firstName: factory.person.firstName(),
+                lastName: factory.person.lastName(),
+            })).afterBuild(async (user) => {
+                await Promise.resolve();
+                return { ...user, email: 'async@example.com' };
+            });
+
+            const users = await UserFactory.batchAsync(3);
+            users.forEach((user) => {
+                expect(user.email).toBe('async@example.com');
+            });
+        });
+
+        it('throws ConfigurationError when async hook is used with batch()', () => {
+            const UserFactory = new Factory<User>(() => ({
+                email: '',
+                firstName: 'John',
+                lastName: 'Doe',
+            })).afterBatch(async (users) => users);
+
+            expect(() => UserFactory.batch(2)).toThrow(ConfigurationError);
+            expect(() => UserFactory.build()).not.toThrow();
+        });
+
+        it('runs beforeBatch with the overrides of every instance', () => {
+            const received: Partial<User>[][] = [];
+            const UserFactory = new Factory<User>((factory) => ({
+                email: '',
+                firstName: factory.person.firstName(),
+                lastName: 'Doe',
+            })).beforeBatch((kwargs) => {
+                received.push(kwargs);
+                return kwargs.map((params, i) => ({
+                    ...params,
+                    email: `user-${i}@example.com`,
+                }));
+            });
+
+            const users = UserFactory.batch(3, [
+                { firstName: 'A' },
+                { firstName: 'B' },
+            ]);
+            expect(received).toEqual([
+                [{ firstName: 'A' }, { firstName: 'B' }, { firstName: 'A' }],
+            ]);
+            expect(users.map((user) => user.email)).toEqual([
+                'user-0@example.com',
+                'user-1@example.com',
+                'user-2@example.com',
+            ]);
+        });
+
+        it('runs afterBatch with all results after the per-instance hooks', async () => {
+            interface Ranked {
+                rank: number;
+                score: number;
+                siblings: number;
+            }
+
+            const calls: string[] = [];
+            const RankedFactory = new Factory<Ranked>((factory) => ({
+                rank: 0,
+                score: factory.number.int({ max: 100, min: 0 }),
+                siblings: 0,
+            }))
+                .afterBuild((item) => {
+                    calls.push('afterBuild');
+                    return item;
+                })
+                .afterBatch((items) => {
+                    calls.push('afterBatch');
+                    const sorted = [...items].sort((a, b) => b.score - a.score);
+                    return items.map((item) => ({
+                        ...item,
+                        rank: sorted.indexOf(item) + 1,
+                        siblings: items.length - 1,
+                    }));
+                });
+
+            const items = RankedFactory.batch(3);
+            expect(calls).toEqual([
+                'afterBuild',
+                'afterBuild',
+                'afterBuild',
+                'afterBatch',
+            ]);
+            expect(items.map((item) => item.rank).sort()).toEqual([1, 2, 3]);
+            items.forEach((item) => {
+                expect(item.siblings).toBe(2);
+            });
+
+            const asyncItems = await RankedFactory.batchAsync(2);
+            expect(asyncItems.map((item) => item.rank).sort()).toEqual([1, 2]);
+        });
+
+        it('applies build and batch hooks in createMany()', async () => {
+            const adapter: PersistenceAdapter<User> = {
+                create: vi.fn((data: User) => Promise.resolve(data)),
+                createMany: vi.fn((data: User[]) => Promise.resolve(data)),
+            };
+            const UserFactory = new Factory<User>((factory) => ({
+                email: '',
+                firstName: factory.person.firstName(),
+                lastName: factory.person.lastName(),
+            }))
+                .afterBuild(async (user) => ({
+                    ...user,
+                    email: 'hooked@example.com',
+                }))
+                .afterBatch((users) =>
+                    users.map((user, i) => ({ ...user, lastName: `#${i}` })),
+                )
+                .withAdapter(adapter);
+
+            const users = await UserFactory.createMany(2);
+            expect(adapter.createMany).toHaveBeenCalledWith(users);
+            expect(users).toEqual([
+                expect.objectContaining({
+                    email: 'hooked@example.com',
+                    lastName: '#0',
+                }),
+                expect.objectContaining({
+                    email: 'hooked@example.com',
+                    lastName: '#1',
+                }),
+            ]);
+        });
+
+        it('passes the iteration, original kwargs, depth and factory to build hooks', () => {
+            const contexts: HookContext<User>[] = [];
+            const UserFactory = new Factory<User>((factory) => ({
+                email: '',
+                firstName: factory.person.firstName(),
+                lastName: 'Doe',
+            }))
+                .beforeBuild((params, context) => {
+                    contexts.push(context);
+                    return { ...params, lastName: 'Changed' };
+                })
+                .afterBuild((user, context) => {
+                    contexts.push(context);
+                    return user;
+                });
+
+            UserFactory.build({ firstName: 'Ada' });
+            expect(contexts).toEqual([
+                {
+                    depth: 0,
+                    factory: UserFactory,
+                    iteration: 0,
+                    kwargs: { firstName: 'Ada' },
+                    transient: {},
+                },
+                {
+                    depth: 0,
+                    factory: UserFactory,
+                    iteration: 0,
+                    kwargs: { firstName: 'Ada' },
+                    transient: {},
+                },
+            ]);
+
+            contexts.length = 0;
+            UserFactory.batch(3, [{ firstName: 'A' }, { firstName: 'B' }]);
+            expect(
+                contexts
+                    .filter((_, i) => i % 2 === 1)
+                    .map(({ iteration, kwargs }) => ({ iteration, kwargs })),
+            ).toEqual([
+                { iteration: 0, kwargs: { firstName: 'A' } },
+                { iteration: 1, kwargs: { firstName: 'B' } },
+                { iteration: 2, kwargs: { firstName: 'A' } },
+            ]);
+        });
+
+        it('passes the iteration to hooks in batchAsync() and createMany()', async () => {
+            const iterations: number[] = [];
+            const adapter: PersistenceAdapter<User> = {
+                create: vi.fn((data: User) => Promise.resolve(data)),
+                createMany: vi.fn((data: User[]) => Promise.resolve(data)),
+            };
+            const UserFactory = new Factory<User>(() => ({
+                email: '',
+                firstName: 'John',
+                lastName: 'Doe',
+            }))
+                .afterBuild(async (user, { depth, iteration }) => {
+                    await Promise.resolve();
+                    iterations.push(iteration);
+                    expect(depth).toBe(0);
+                    return user;
+                })
+                .withAdapter(adapter);
+
+            await UserFactory.batchAsync(3);
+            expect(iterations.sort()).toEqual([0, 1, 2]);
+
+            iterations.length = 0;
+            await UserFactory.createMany(2);
+            expect(iterations.sort()).toEqual([0, 1]);
+        });
+
+        it('reports the depth of nested builds', () => {
+            interface TreeNode {
+                children: TreeNode[];
+                name: string;
+            }
+
+            const depths: number[] = [];
+            const TreeFactory = new Factory<TreeNode>(
+                (factory) => ({
+                    children: factory.batch(1),
+                    name: factory.lorem.word(),
+                }),
+                { maxDepth: 3 },
+            ).afterBuild((node, { depth }) => {
+                depths.push(depth);
+                return node;
+            });
+
+            TreeFactory.build();
+            expect(depths.sort()).toEqual([0, 1, 2]);
+        });
+
+        it('passes the factory and transient params to batch hooks', () => {
+            const contexts: BatchHookContext<User>[] = [];
+            const UserFactory = new Factory<User>(() => ({
+                email: '',
+                firstName: 'John',
+                lastName: 'Doe',
+            }))
+                .beforeBatch((kwargs, context) => {
+                    contexts.push(context);
+                    return kwargs;
+                })
+                .afterBatch((users, context) => {
+                    contexts.push(context);
+                    return users;
+                });
+
+            UserFactory.batch(2, undefined, { transient: { flag: true } });
+            expect(contexts).toEqual([
+                { depth: 0, factory: UserFactory, transient: { flag: true } },
+                { depth: 0, factory: UserFactory, transient: { flag: true } },
+            ]);
+        });
+
+        it('inherits hooks and adapter in extend(), compose() and partial()', async () => {
+            interface Admin extends User {
+                role: string;
+            }
+
+            const adapter: PersistenceAdapter<User> = {
+                create: vi.fn((data: User) => Promise.resolve(data)),
+                createMany: vi.fn((data: User[]) => Promise.resolve(data)),
+            };
+            const UserFactory = new Factory<User>(() => ({
+                email: '',
+                firstName: 'John',
+                lastName: 'Doe',
+            }))
+                .beforeBuild((params) => ({ ...params, firstName: 'Jane' }))
+                .afterBuild((user) => ({ ...user, email: 'hashed' }))
+                .withAdapter(adapter);
+
+            const AdminFactory = UserFactory.extend<Admin>(() => ({
+                email: '',
+                firstName: 'Admin',
+                lastName: 'Doe',
+                role: 'admin',
+            }));
+            expect(AdminFactory.build()).toEqual({
+                email: 'hashed',
+                firstName: 'Jane',
+                lastName: 'Doe',
+                role: 'admin',
+            });
+            expect(
+                UserFactory.compose<Admin>({ role: 'admin' }).build(),
+            ).toEqual({
+                email: 'hashed',
+                firstName: 'Jane',
+                lastName: 'Doe',
+                role: 'admin',
+            });
+            expect(UserFactory.partial().build().email).toBe('hashed');
+
+            await AdminFactory.create();
+            expect(adapter.create).toHaveBeenCalledTimes(1);
+        });
+
+        it('copies inherited hooks so that later changes do not leak between factories', () => {
+            const UserFactory = new Factory<User>(() => ({
+                email: '',
+                firstName: 'John',
+                lastName: 'Doe',
+            })).afterBuild((user) => ({ ...user, email: 'base' }));
+
+            const DerivedFactory = UserFactory.extend<User>(() => ({
+                email: '',
+                firstName: 'John',
+                lastName: 'Doe',
+            })).afterBuild((user) => ({ ...user, lastName: 'Derived' }));
+            UserFactory.afterBuild((user) => ({ ...user, firstName: 'Base' }));
+
+            expect(DerivedFactory.build()).toEqual({
+                email: 'base',
+                firstName: 'John',
+                lastName: 'Derived',
+            });
+            expect(UserFactory.build()).toEqual({
+                email: 'base',
+                firstName: 'Base',
+                lastName: 'Doe',
+            });
+        });
+
+        it('opts out of inheriting hooks and adapter', async () => {
+            const adapter: PersistenceAdapter<User> = {
+                create: vi.fn((data: User) => Promise.resolve(data)),
+                createMany: vi.fn((data: User[]) => Promise.resolve(data)),
+            };
+            const UserFactory = new Factory<User>(() => ({
+                email: '',
+                firstName: 'John',
+                lastName: 'Doe',
+            }))
+                .afterBuild((user) => ({ ...user, email: 'hashed' }))
+                .withAdapter(adapter);
+
+            const isolated = UserFactory.partial({ inherit: false });
+            expect(isolated.build().email).toBe('');
+            await expect(isolated.create()).rejects.toThrow(ConfigurationError);
+
+            const hooksOnly = UserFactory.compose(
+                {},
+                { inherit: { adapter: false } },
+            );
+            expect(hooksOnly.build().email).toBe('hashed');
+            await expect(hooksOnly.create()).rejects.toThrow(
+                ConfigurationError,
+            );
+
+            const adapterOnly = UserFactory.extend(
+                () => ({ email: '', firstName: 'John', lastName: 'Doe' }),
+                { inherit: { hooks: false } },
+            );
+            expect((await adapterOnly.create()).email).toBe('');
+        });
+
+        it('removes and overrides inherited hooks', () => {
+            const hashPassword = (user: User) => ({ ...user, email: 'hashed' });
+            const UserFactory = new Factory<User>(() => ({
+                email: '',
+                firstName: 'John',
+                lastName: 'Doe',
+            }))
+                .beforeBuild((params) => ({ ...params, firstName: 'Jane' }))
+                .afterBuild(hashPassword);
+
+            const withoutHash = UserFactory.partial().removeHook(hashPassword);
+            expect(withoutHash.build()).toEqual({
+                email: '',
+                firstName: 'Jane',
+                lastName: 'Doe',
+            });
+
+            const overridden = UserFactory.compose({})
+                .clearHooks('afterBuild')
+                .afterBuild((user) => ({ ...user, email: 'plain' }));
+            expect(overridden.build()).toEqual({
+                email: 'plain',
+                firstName: 'Jane',
+                lastName: 'Doe',
+            });
+
+            expect(UserFactory.compose({}).clearHooks().build()).toEqual({
+                email: '',
+                firstName: 'John',
+                lastName: 'Doe',
+            });
+            expect(UserFactory.build().email).toBe('hashed');
+        });
+
+        it('throws error if a batch hook is not a function', () => {
+            const UserFactory = new Factory<User>(() => ({
+                email: '',
+                firstName: 'John',
+                lastName: 'Doe',
+            }));
+
+            expect(() =>
+                UserFactory.beforeBatch('hook' as unknown as () => []),
+            ).toThrow('Hook must be a function');
+            expect(() =>
+                UserFactory.afterBatch(null as unknown as () => []),
+            ).toThrow('Hook must be a function');
+        });
     });
 
     describe('Persistence Adapters', () => {
@@ -1,5 +1,3 @@
-/* eslint-disable unicorn/no-new-array */
-
 import { en, Faker, LocaleDefinition, Randomizer } from '@faker-js/faker';
 import {
     isAsyncFunction,
@@ -8,78 +6,269 @@ import {
     isRecord,
 } from '@tool-belt/type-predicates';
 // Node.js modules - only available in Node.js environment
-let createHash: typeof import('node:crypto').createHash | undefined;
-let fs: typeof import('node:fs') | undefined;
 let path: typeof import('node:path') | undefined;
 
 // Conditionally import Node.js modules for fixture functionality
-/* eslint-disable @typescript-eslint/no-unnecessary-condition, @typescript-eslint/no-require-imports, @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access, prefer-destructuring */
+/* eslint-disable @typescript-eslint/no-unnecessary-condition, @typescript-eslint/no-require-imports, @typescript-eslint/no-unsafe-assignment */
 if (typeof process !== 'undefined' && process.versions?.node) {
     try {
-        createHash = require('node:crypto').createHash;
-        fs = require('node:fs');
         path = require('node:path');
     } catch {
         // Ignore import errors in environments where Node.js modules aren't available
     }
 }
-/* eslint-enable @typescript-eslint/no-unnecessary-condition, @typescript-eslint/no-require-imports, @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access, prefer-destructuring */
+/* eslint-enable @typescript-eslint/no-unnecessary-condition, @typescript-eslint/no-require-imports, @typescript-eslint/no-unsafe-assignment */
 import {
+    CircularReferenceError,
     ConfigurationError,
     FixtureError,
     FixtureValidationError,
+    UniqueConstraintError,
 } from './errors';
 import { CycleGenerator, SampleGenerator } from './generators';
-import { merge, Ref, validateBatchSize } from './utils';
-import { DEFAULT_MAX_DEPTH } from './constants';
+import { FileSystemFixtureStore, FixtureStore } from './stores';
+import {
+    appendPointer,
+    createSignatureHash,
+    decodeFixtureValue,
+    diffSignatureInputs,
+    encodeFixtureValue,
+    FixtureCodec,
+    formatSignatureChange,
+    getCallerFile,
+    getCurrentTestName,
+    markLibraryModule,
+    merge,
+    posixPath,
+    Ref,
+    validateBatchSize,
+} from './utils';
+import {
+    DEFAULT_MAX_DEPTH,
+    DEFAULT_UNIQUE_MAX_RETRIES,
+    FIXTURE_UPDATE_ENV,
+    FIXTURE_VERSION,
+} from './constants';
 
 export {
     CircularReferenceError,
     ConfigurationError,
     FixtureError,
     FixtureValidationError,
+    UniqueConstraintError,
     ValidationError,
 } from './errors';
+export type { FixtureSignatureChange } from './errors';
+export {
+    FileSystemFixtureStore,
+    IndexedDBFixtureStore,
+    LocalStorageFixtureStore,
+    MemoryFixtureStore,
+} from './stores';
+export type { FixtureStore } from './stores';
 export { Ref } from './utils';
+export type { FixtureCodec } from './utils';
+
+export type AfterBatchHook<T, R extends object = TransientParams> = (
+    results: T[],
+    context: BatchHookContext<T, R>,
+) => Promise<T[]> | T[];
+
+export type AfterBuildHook<T, R extends object = TransientParams> = (
+    obj: T,
+    context: HookContext<T, R>,
+) => Promise<T> | T;
+
+/**
+ * Context passed to batch hooks as second argument.
+ */
+export interface BatchHookContext<
+    T = unknown,
+    R extends object = TransientParams,
+> {
+    /**
+     * Nesting depth of the build: 0 at the root, higher for instances built inside another factory function
+     */
+    depth: number;
+    /**
+     * The factory running the build
+     */
+    factory: Factory<T>;
+    /**
+     * Transient parameters of the current build, or an empty object if none were passed
+     */
+    transient: Partial<R>;
+}
 
-export type AfterBuildHook<T> = (obj: T) => Promise<T> | T;
+export type BeforeBatchHook<T, R extends object = TransientParams> = (
+    kwargs: Partial<T>[],
+    context: BatchHookContext<T, R>,
+) => Partial<T>[] | Promise<Partial<T>[]>;
 
-export type BeforeBuildHook<T> = (
+export type BeforeBuildHook<T, R extends object = TransientParams> = (
     params: Partial<T>,
+    context: HookContext<T, R>,
 ) => Partial<T> | Promise<Partial<T>>;
 
-export interface CreateManyOptions<T> {
+/**
+ * Options for a `belongsTo()` association.
+ */
+export interface BelongsToOptions<T, U> {
+    /**
+     * The field of the instance that holds the key of the related instance.
+     */
+    foreignKey: keyof T & string;
+    /**
+     * The key field of the related instance. Defaults to `'id'`.
+     */
+    primaryKey?: keyof U & string;
+}
+
+export interface BuildOptions<
+    N extends string = string,
+    R extends object = TransientParams,
+> {
+    /**
+     * Enable fixture generation/loading for this call. The traits and transient parameters are part of
+     * the signature. Batches are stored as one fixture containing the array, with the size and kwargs
+     * as part of the signature as well.
+     * - true: Use a default fixture path derived from the calling module and the running test
+     * - string: Use as fixture file path
+     */
+    generateFixture?: boolean | string;
+    /**
+     * Names of traits to activate for this build.
+     * Traits are layered in the given order on top of the factory defaults and before kwargs.
+     */
+    traits?: N[];
+    /**
+     * Transient parameters that steer generation. They are passed to the factory function,
+     * traits and hooks, but never merged into the built object.
+     */
+    transient?: Partial<R>;
+}
+
+/**
+ * The number of instances of a collection, either fixed or drawn from a range (inclusive).
+ */
+export type CollectionSize = { max: number; min: number } | number;
+
+/**
+ * A value in a composition: a static value, a factory for a single instance,
+ * or a `[factory, size]` tuple or `factory.many()` collection for array fields.
+ */
+export type CompositionValue<V> =
+    | Factory<NonNullable<V>>
+    | V
+    | (V extends readonly (infer E)[]
+          ? [Factory<E>, number] | FactoryCollection<E>
+          : never);
+
+export interface CreateManyOptions<
+    T,
+    N extends string = string,
+    R extends object = TransientParams,
+> extends BuildOptions<N, R> {
     adapter?: PersistenceAdapter<T>;
 }
 
-export interface CreateOptions<T> {
+export interface CreateOptions<
+    T,
+    N extends string = string,
+    R extends object = TransientParams,
+> extends BuildOptions<N, R> {
     adapter?: PersistenceAdapter<T>;
 }
 
+/**
+ * What a factory returns in place of an instance when `maxDepth` is exceeded:
+ * - `null` (default) or `undefined`: the value itself, for both `build()` and `batch()`
+ * - `'omit'`: the property holding the instance or batch is left out of the parent object. At the root,
+ *   `batch()` returns an empty array and `build()` throws a ConfigurationError
+ * - `'empty'`: an empty object for `build()` and an empty array for `batch()`
+ * - a function: its result, called with the factory and the depth, once per instance of a batch
+ */
+export type DepthFallback =
+    | 'empty'
+    | 'omit'
+    | ((factory: Factory<unknown>, depth: number) => unknown)
+    | null
+    | undefined;
+
+/**
+ * Options for factories derived via `extend()`, `compose()` and `partial()`.
+ */
+export interface DeriveOptions {
+    /**
+     * What the derived factory inherits from its parent in addition to traits and sequences.
+     * Pass false to inherit neither hooks nor adapter, or an object to opt out of each separately.
+     * Defaults to true.
+     */
+    inherit?: { adapter?: boolean; hooks?: boolean } | boolean;
+}
+
 export type FactoryComposition<T> = {
-    [K in keyof T]?: Factory<T[K]> | T[K];
+    [K in keyof T]?: CompositionValue<T[K]>;
 };
 
-export type FactoryFunction<T> = (
+export type FactoryFunction<T, R extends object = TransientParams> = (
     factory: Factory<T>,
     iteration: number,
     kwargs?: Partial<T>,
+    transient?: Partial<R>,
 ) => FactorySchema<T> | Promise<FactorySchema<T>>;
 
+/**
+ * Hooks passed to `withHooks()`, either a single hook or a list of hooks per type.
+ */
+export interface FactoryHooks<T, R extends object = TransientParams> {
+    afterBatch?: AfterBatchHook<T, R> | AfterBatchHook<T, R>[];
+    afterBuild?: AfterBuildHook<T, R> | AfterBuildHook<T, R>[];
+    beforeBatch?: BeforeBatchHook<T, R> | BeforeBatchHook<T, R>[];
+    beforeBuild?: BeforeBuildHook<T, R> | BeforeBuildHook<T, R>[];
+}
+
 export interface FactoryOptions {
+    /**
+     * Value returned in place of instances beyond `maxDepth`, defaults to `null`.
+     * Factories built inside another factory use the fallback of the nearest enclosing factory
+     * that sets one, unless they set their own.
+     */
+    depthFallback?: DepthFallback;
     /**
      * Fixture configuration for caching generated data
      */
     fixtures?: FixtureConfiguration;
     /**
      * Enable fixture generation/loading for this build.
-     * - true: Use default fixture path based on call stack
+     * - true: Use a default fixture path derived from the calling module and the running test
      * - string: Use as fixture file path
      */
     generateFixture?: boolean | string;
     locale?: LocaleDefinition | LocaleDefinition[];
     maxDepth?: number;
+    /**
+     * Name of the factory used in error messages, default fixture paths and fixture signatures,
+     * e.g. `'User'`. Defaults to the class name, i.e. `'Factory'` or `'ZodFactory'`.
+     */
+    name?: string;
     randomizer?: Randomizer;
+    /**
+     * Seed for all random generation of the factory, including `sample()` and Zod schema generation.
+     * Builds of a factory with the same seed are reproducible.
+     */
+    seed?: number;
+    /**
+     * Throw a CircularReferenceError when the factory is reached again while one of its instances
+     * is still being built, e.g. `User -> Post -> User` through `use()`, instead of cutting the
+     * cycle off with `null` at `maxDepth`.
+     */
+    strict?: boolean;
+    /**
+     * Version of the shape of the generated instances, defaults to 1. Part of the fixture signature.
+     * Fixtures of older versions are upgraded on read through the migrations registered with `migration()`.
+     */
+    version?: number;
 }
 
 export type FactorySchema<T> = {
@@ -91,9 +280,14 @@ export type FactorySchema<T> = {
 
 export interface FixtureConfiguration {
     /**
-     * Base directory for storing fixtures. Defaults to process.cwd()
+     * Base directory for storing fixtures. Defaults to process.cwd() in Node.js and '' elsewhere
      */
     basePath?: string;
+    /**
+     * Codecs that store instances of custom classes in fixture files and restore them on read.
+     * Dates, Maps, Sets, BigInts and undefined values are handled without codecs.
+     */
+    codecs?: FixtureCodec[];
     /**
      * Custom directory name for fixtures. Defaults to '__fixtures__'
      * Set to empty string to store fixtures in the same directory as the file path
@@ -103,6 +297,16 @@ export interface FixtureConfiguration {
      * Whether to include the factory function source in signature calculation. Defaults to true
      */
     includeSource?: boolean;
+    /**
+     * Storage backend for fixture files. Defaults to a FileSystemFixtureStore
+     * Use a MemoryFixtureStore, LocalStorageFixtureStore or IndexedDBFixtureStore outside Node.js
+     */
+    store?: FixtureStore;
+    /**
+     * Whether to regenerate and rewrite fixtures whose signature has changed instead of throwing.
+     * Defaults to true if the INTERFACE_FORGE_UPDATE_FIXTURES environment variable is set
+     */
+    update?: boolean;
     /**
      * Whether to use subdirectories for fixtures. Defaults to true
      * When true: fixtures are stored in a subdirectory (e.g., /path/__fixtures__/file.json)
@@ -124,19 +328,90 @@ export interface FixtureMetadata {
      * The actual fixture data
      */
     data: unknown;
+    /**
+     * The `version` option of the factory that generated the data. Fixtures without it are treated as version 1
+     */
+    factoryVersion?: number;
     /**
      * SHA-256 hash of the factory configuration
      */
     signature: string;
     /**
-     * Fixture version for future compatibility
+     * The inputs the signature was calculated from, e.g. the factory name, options, hook counts and
+     * schema fields. Used to report what changed when the signature no longer matches.
+     */
+    signatureInputs?: Record<string, unknown>;
+    /**
+     * Format version of the fixture file. Version 2 stores the data in typed envelopes that
+     * restore Dates, Maps, Sets, BigInts and undefined values, version 1 stored plain JSON.
      */
     version: number;
 }
 
-export type PartialFactoryFunction<T> = (
+/**
+ * Upgrades an instance stored in a fixture from one version of a factory to the next.
+ * Instances of batch fixtures are migrated one by one.
+ *
+ * @template T The shape of the instances of the version the migration upgrades from
+ */
+export type FixtureMigration<T = unknown> = (instance: T) => unknown;
+
+/**
+ * The fixtures used since the start of the run or the last `resetFixtureSummary()`, by full path.
+ */
+export interface FixtureSummary {
+    /**
+     * Fixtures that did not exist and were generated
+     */
+    created: string[];
+    /**
+     * Fixtures that were loaded from disk
+     */
+    unchanged: string[];
+    /**
+     * Fixtures whose signature had changed and that were regenerated in update mode
+     */
+    updated: string[];
+}
+
+/**
+ * Options for a `hasMany()` association.
+ */
+export interface HasManyOptions<T, U> {
+    /**
+     * The number of related instances to build per instance.
+     */
+    count: CollectionSize;
+    /**
+     * The field of the related instances that holds the key of the instance.
+     */
+    inverse: keyof U & string;
+    /**
+     * The key field of the instance. Defaults to `'id'`.
+     */
+    primaryKey?: keyof T & string;
+}
+
+/**
+ * Context passed to build hooks as second argument.
+ */
+export interface HookContext<T = unknown, R extends object = TransientParams>
+    extends BatchHookContext<T, R> {
+    /**
+     * Index of the instance within its batch, or 0 for a single build
+     */
+    iteration: number;
+    /**
+     * The overrides originally passed for the instance, before any beforeBuild hook ran
+     */
+    kwargs: Partial<T>;
+}
+
+export type PartialFactoryFunction<T, R extends object = TransientParams> = (
     factory: Factory<T>,
     iteration: number,
+    kwargs?: Partial<T>,
+    transient?: Partial<R>,
 ) => Partial<FactorySchema<T>> | Promise<Partial<FactorySchema<T>>>;
 
 /**
@@ -164,6 +439,198 @@ export interface PersistenceAdapter<T, R = T> {
     createMany(data: T[]): Promise<R[]>;
 }
 
+/**
+ * How many instances of a factory a scenario builds: a count, or a count with field overrides.
+ * Field overrides may `pick()` instances of other entries of the scenario.
+ */
+export type ScenarioEntry<T> =
+    | ({ [K in keyof T]?: ScenarioPick | T[K] } & { count: number })
+    | number;
+
+/**
+ * The factories a scenario builds from, keyed by the name its spec refers to them by.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type ScenarioFactories = Record<string, Factory<any, any, any>>;
+
+/**
+ * The instances built by a scenario, one array per entry of its spec.
+ */
+export type ScenarioResult<M extends ScenarioFactories, S> = {
+    [K in keyof M & keyof S]: FactoryInstance<M[K]>[];
+};
+
+/**
+ * The entries of a scenario, keyed by the names of its factories.
+ */
+export type ScenarioSpec<M extends ScenarioFactories> = {
+    [K in keyof M]?: ScenarioEntry<FactoryInstance<M[K]>>;
+};
+
+/**
+ * A named set of overrides that can be activated per build.
+ * Either a partial schema or a function producing one, which receives the same
+ * arguments as the factory function.
+ */
+export type TraitDefinition<T> =
+    | ((
+          factory: Factory<T>,
+          iteration: number,
+          kwargs?: Partial<T>,
+          transient?: TransientParams,
+      ) => Partial<FactorySchema<T>> | Promise<Partial<FactorySchema<T>>>)
+    | Partial<FactorySchema<T>>;
+
+/**
+ * Parameters that steer generation without being part of the generated type.
+ */
+export type TransientParams = Record<string, unknown>;
+
+/**
+ * Options of a unique constraint registered with `unique()`.
+ */
+export interface UniqueOptions {
+    /**
+     * Number of regeneration attempts before a UniqueConstraintError is thrown. Defaults to 10.
+     */
+    maxRetries?: number;
+    /**
+     * What to regenerate on a collision: only the colliding fields, or the whole object. Defaults to 'field'.
+     */
+    regenerate?: 'field' | 'object';
+    /**
+     * Where values must be unique. Defaults to 'factory'.
+     * - 'batch': within a single build, batch or createMany call
+     * - 'factory': across all builds of the factory
+     * - 'global': across all factories that constrain a field with the same name
+     */
+    scope?: UniqueScope;
+}
+
+export type UniqueScope = 'batch' | 'factory' | 'global';
+
+/**
+ * A related factory declared via `belongsTo()` or `hasMany()`.
+ */
+type Association =
+    | {
+          readonly count: CollectionSize;
+          readonly factory: Factory<unknown>;
+          readonly inverse: string;
+          readonly kind: 'hasMany';
+          readonly name: string;
+          readonly primaryKey: string;
+      }
+    | {
+          readonly factory: Factory<unknown>;
+          readonly foreignKey: string;
+          readonly kind: 'belongsTo';
+          readonly name: string;
+          readonly primaryKey: string;
+      };
+
+/**
+ * A factory instance under construction, linked to the build that started it.
+ */
+interface BuildFrame {
+    readonly depth: number;
+    readonly factory: Factory<unknown>;
+    readonly index?: number;
+    /**
+     * The object handed out by `parent()` and `root()`, filled with the built values once the build completes.
+     */
+    instance?: object;
+    readonly name: string;
+    readonly parent?: BuildFrame;
+    /**
+     * The property path that is currently being resolved, e.g. `posts` or `profile.avatar`.
+     */
+    path: string;
+}
+
+/**
+ * The instance type built by a factory, e.g. the return type of `parent(UserFactory)`.
+ */
+type FactoryInstance<F extends ScenarioFactories[string]> = ReturnType<
+    F['build']
+>;
+
+/**
+ * Extracts the transient parameter type declared by a factory function.
+ */
+type TransientParamsOf<F> = F extends (
+    factory: never,
+    iteration: number,
+    kwargs: never,
+    transient: Partial<infer R>,
+) => unknown
+    ? R
+    : TransientParams;
+
+type UniqueConstraint = { fields: string[] } & Required<UniqueOptions>;
+
+type UniqueValues = Map<string, Set<unknown>>;
+
+const globalUniqueValues: UniqueValues = new Map();
+
+let currentBuildFrame: BuildFrame | undefined;
+
+/**
+ * The status of each fixture used in this run, keyed by full path.
+ */
+const fixtureStatuses = new Map<string, keyof FixtureSummary>();
+
+/**
+ * The number of default fixture paths handed out per test, keyed by path without the ordinal.
+ */
+const defaultFixtureOrdinals = new Map<string, number>();
+
+const defaultFixtureStore = new FileSystemFixtureStore();
+
+/**
+ * Async fixture generations in progress, keyed by full path.
+ */
+const pendingFixtures = new Map<string, Promise<unknown>>();
+
+markLibraryModule();
+
+/**
+ * Returns the depth of a build started inside the current build, so that depth limits apply
+ * across factories, e.g. through `use()` and `compose()`.
+ *
+ * @returns 0 at the top level, otherwise one more than the depth of the current build
+ */
+function getNestedDepth(): number {
+    return currentBuildFrame ? currentBuildFrame.depth + 1 : 0;
+}
+
+/**
+ * Checks whether a composition value is a `[factory, size]` tuple.
+ *
+ * @param value The composition value
+ * @returns True for a two-element array of a factory and a number
+ */
+function isCompositionTuple(
+    value: unknown,
+): value is [Factory<unknown>, number] {
+    return (
+        Array.isArray(value) &&
+        value.length === 2 &&
+        value[0] instanceof Factory &&
+        typeof value[1] === 'number'
+    );
+}
+
+/**
+ * Instances handed out by `parent()` and `root()`, which are kept by reference when values are parsed.
+ */
+const ancestorInstances = new WeakSet<object>();
+
+/**
+ * Marks instances cut off by the `'omit'` depth fallback, which are removed when values are parsed.
+ */
+const omittedValue = Symbol('omitted');
+
 /**
  * A factory class for generating type-safe mock data by extending Faker.js functionality.
  * Provides methods for creating single instances, batches, and complex object compositions
@@ -171,6 +638,8 @@ export interface PersistenceAdapter<T, R = T> {
  *
  * @template T - The type of objects this factory generates
  * @template O - The type of factory options
+ * @template F - The type of the factory function
+ * @template N - The names of the registered traits
  */
 export class Factory<
     T,
@@ -178,15 +647,38 @@ export class Factory<
     F extends
         | FactoryFunction<T>
         | PartialFactoryFunction<T> = FactoryFunction<T>,
+    N extends string = never,
 > extends Faker {
     readonly options?: { maxDepth: number } & Omit<
         O,
         'locale' | 'maxDepth' | 'randomizer'
     >;
-    protected afterBuildHooks: AfterBuildHook<T>[] = [];
-    protected beforeBuildHooks: BeforeBuildHook<T>[] = [];
+    protected afterBatchHooks: AfterBatchHook<T, TransientParamsOf<F>>[] = [];
+    protected afterBuildHooks: AfterBuildHook<T, TransientParamsOf<F>>[] = [];
+    protected associations: Association[] = [];
+    protected beforeBatchHooks: BeforeBatchHook<T, TransientParamsOf<F>>[] = [];
+    protected beforeBuildHooks: BeforeBuildHook<T, TransientParamsOf<F>>[] = [];
+    /**
+     * The factory and the additions a factory derived via `compose()`, `extend()` or `partial()`
+     * was created from. Part of the fixture signature.
+     */
+    protected derivedFrom: unknown[] = [];
     protected readonly factory: F;
+    /**
+     * Fixture migrations keyed by the factory version they upgrade from.
+     */
+    protected migrations = new Map<number, FixtureMigration>();
+    protected seedValue?: number;
+    protected sequenceCounters = new Map<string, number>();
+    protected readonly traitDefinitions = new Map<string, TraitDefinition<T>>();
+    protected uniqueConstraints: UniqueConstraint[] = [];
+    protected uniqueValues: UniqueValues = new Map();
+    /**
+     * The factory this one was copied from by `withOptions()` and the builders based on it.
+     */
+    private copiedFrom?: Factory<unknown>;
     private defaultAdapter?: PersistenceAdapter<T>;
+    private readonly randomizer?: Randomizer;
 
     constructor(
         factory: F,
@@ -198,12 +690,33 @@ export class Factory<
         });
 
         this.factory = factory;
+        this.randomizer = randomizer;
         this.options = {
             ...rest,
             maxDepth: rest.maxDepth ?? DEFAULT_MAX_DEPTH,
         } as {
             maxDepth: number;
         } & Omit<O, 'locale' | 'maxDepth' | 'randomizer'>;
+
+        if (rest.seed !== undefined) {
+            this.#applySeed(rest.seed);
+        }
+    }
+
+    /**
+     * Adds a hook that will be executed after building a batch, with all instances of the batch.
+     * Batch hooks run in `batch()`, `batchAsync()` and `createMany()`, after the per-instance hooks,
+     * and can post-process the whole array, e.g. to assign ranks or link siblings.
+     *
+     * @param hook Function that receives the built instances and the hook context, and returns the modified instances
+     * @returns The current Factory instance for method chaining
+     */
+    afterBatch(hook: AfterBatchHook<T, TransientParamsOf<F>>): this {
+        if (!isFunction(hook) && !isAsyncFunction(hook)) {
+            throw new TypeError('Hook must be a function');
+        }
+        this.afterBatchHooks.push(hook);
+        return this;
     }
 
     /**
@@ -211,10 +724,10 @@ export class Factory<
      * Hooks are executed in the order they were added and can be either synchronous or asynchronous.
      * This method returns the factory instance for method chaining.
      *
-     * @param hook Function that receives the built instance and returns the modified instance
+     * @param hook Function that receives the built instance and the hook context, and returns the modified instance
      * @returns The current Factory instance for method chaining
      */
-    afterBuild(hook: AfterBuildHook<T>): this {
+    afterBuild(hook: AfterBuildHook<T, TransientParamsOf<F>>): this {
         if (!isFunction(hook) && !isAsyncFunction(hook)) {
             throw new TypeError('Hook must be a function');
         }
@@ -225,19 +738,32 @@ export class Factory<
     /**
      * Generates an array of instances using the factory's schema.
      * Supports both uniform overrides (same for all instances) and individual overrides per instance.
+     * Build hooks run for every instance, and batch hooks for the whole array.
      *
      * @param size Number of instances to generate (must be non-negative integer)
      * @param kwargs Either a single partial object (applied to all) or an array of partials (one per instance)
+     * @param options Build options such as the traits and transient parameters for every instance
      * @returns Array of generated instances
      * @throws {Error} If size is negative or not an integer
+     * @throws {ConfigurationError} If async hooks are registered
      */
-    batch = (size: number, kwargs?: Partial<T> | Partial<T>[]): T[] => {
+    batch = (
+        size: number,
+        kwargs?: Partial<T> | Partial<T>[],
+        options?: BuildOptions<N, TransientParamsOf<F>>,
+    ): T[] => {
         if (isAsyncFunction(this.factory)) {
             throw new ConfigurationError(
                 'Async factory function detected. Use buildAsync() method to build instances with async factories.',
             );
         }
 
+        if (this.hasAsyncHooks('batch')) {
+            throw new ConfigurationError(
+                'Async hooks detected. Use batchAsync() method to build instances with async hooks.',
+            );
+        }
+
         if (!Number.isInteger(size) || size < 0) {
             throw new Error('Batch size must be a non-negative integer');
         }
@@ -246,30 +772,17 @@ export class Factory<
             return [];
         }
 
-        let results: T[];
-        if (kwargs) {
-            const generator = this.iterate<Partial<T>>(
-                Array.isArray(kwargs) ? kwargs : ([kwargs] as Partial<T>[]),
-            );
-
-            results = new Array(size)
-                .fill(null)
-                .map((_, i) =>
-                    this.#generate(i, generator.next().value, 0),
-                ) as T[];
-        } else {
-            results = new Array(size)
-                .fill(null)
-                .map((_, i) => this.#generate(i, undefined, 0)) as T[];
-        }
-
-        if (results.some((result) => result instanceof Promise)) {
-            throw new ConfigurationError(
-                'Async factory function detected. Use buildAsync() method to build instances with async factories.',
+        const fixturePath = this.resolveFixturePath(options);
+        if (fixturePath) {
+            const depth = getNestedDepth();
+            return this.withFixture(
+                fixturePath,
+                this.getFixtureInputs(options, { kwargs, size }),
+                () => this.#batch(size, kwargs, depth, options),
             );
         }
 
-        return results;
+        return this.#batch(size, kwargs, getNestedDepth(), options);
     };
 
     /**
@@ -278,6 +791,7 @@ export class Factory<
      *
      * @param size Number of instances to generate (must be non-negative integer)
      * @param kwargs Either a single partial object (applied to all) or an array of partials (one per instance)
+     * @param options Build options such as the traits and transient parameters for every instance
      * @returns Promise that resolves to an array of generated instances
      * @throws {Error} If size is negative or not an integer
      *
@@ -295,8 +809,35 @@ export class Factory<
     async batchAsync(
         size: number,
         kwargs?: Partial<T> | Partial<T>[],
+        options?: BuildOptions<N, TransientParamsOf<F>>,
     ): Promise<F extends FactoryFunction<T> ? T[] : Partial<T>[]> {
-        return this.#batchAsync(size, kwargs, 0);
+        const fixturePath = this.resolveFixturePath(options);
+        if (fixturePath && size > 0) {
+            const depth = getNestedDepth();
+            return this.withFixtureAsync(
+                fixturePath,
+                this.getFixtureInputs(options, { kwargs, size }),
+                () => this.#batchAsync(size, kwargs, depth, options),
+            );
+        }
+
+        return this.#batchAsync(size, kwargs, getNestedDepth(), options);
+    }
+
+    /**
+     * Adds a hook that will be executed before building a batch.
+     * The hook receives the overrides of every instance, one entry per instance, and returns the
+     * overrides to build. Batch hooks run in `batch()`, `batchAsync()` and `createMany()`.
+     *
+     * @param hook Function that receives the per-instance overrides and the hook context, and returns modified overrides
+     * @returns The current Factory instance for method chaining
+     */
+    beforeBatch(hook: BeforeBatchHook<T, TransientParamsOf<F>>): this {
+        if (!isFunction(hook) && !isAsyncFunction(hook)) {
+            throw new TypeError('Hook must be a function');
+        }
+        this.beforeBatchHooks.push(hook);
+        return this;
     }
 
     /**
@@ -304,10 +845,10 @@ export class Factory<
      * Hooks receive the partial parameters (kwargs) and can modify them before the instance is built.
      * Multiple hooks are executed in the order they were added.
      *
-     * @param hook Function that receives partial parameters and returns modified parameters
+     * @param hook Function that receives partial parameters and the hook context, and returns modified parameters
      * @returns The current Factory instance for method chaining
      */
-    beforeBuild(hook: BeforeBuildHook<T>): this {
+    beforeBuild(hook: BeforeBuildHook<T, TransientParamsOf<F>>): this {
         if (!isFunction(hook) && !isAsyncFunction(hook)) {
             throw new TypeError('Hook must be a function');
         }
@@ -315,6 +856,43 @@ export class Factory<
         return this;
     }
 
+    /**
+     * Declares that each instance belongs to an instance of another factory.
+     * Building an instance builds the related instance into `name` and copies its key into `foreignKey`,
+     * unless either field is overridden. `create()` and `createMany()` persist the related instance first
+     * through the adapter of its factory.
+     *
+     * @param name The field that holds the related instance
+     * @param factory The factory that builds the related instance
+     * @param options The foreign key field and the key field of the related instance
+     * @returns The current Factory instance for method chaining
+     *
+     * @example
+     * ```typescript
+     * const PostFactory = new Factory<Post>((factory) => ({
+     *   authorId: '',
+     *   title: factory.lorem.sentence(),
+     * })).belongsTo('author', UserFactory, { foreignKey: 'authorId' });
+     *
+     * const post = PostFactory.build();
+     * // post.authorId === post.author.id
+     * ```
+     */
+    belongsTo<U>(
+        name: keyof T & string,
+        factory: Factory<U>,
+        options: BelongsToOptions<T, U>,
+    ): this {
+        this.associations.push({
+            factory: factory as Factory<unknown>,
+            foreignKey: options.foreignKey,
+            kind: 'belongsTo',
+            name,
+            primaryKey: options.primaryKey ?? 'id',
+        });
+        return this;
+    }
+
     /**
      * Generates a single instance of type T using the factory's schema.
      * Properties can be overridden by passing a partial object.
@@ -322,7 +900,7 @@ export class Factory<
      * If async hooks are registered, a ConfigurationError is thrown.
      *
      * @param kwargs Properties to override in the generated instance
-     * @param options Factory options including fixture generation
+     * @param options Factory options including fixture generation, traits and transient parameters
      * @returns A new instance with factory-generated values merged with any overrides
      * @throws {ConfigurationError} If async hooks are registered
      * @throws {FixtureError} If fixture operations fail
@@ -330,7 +908,7 @@ export class Factory<
      */
     build = (
         kwargs?: Partial<T>,
-        options?: Partial<O>,
+        options?: BuildOptions<N, TransientParamsOf<F>> & Partial<O>,
     ): F extends FactoryFunction<T> ? T : Partial<T> => {
         if (isAsyncFunction(this.factory)) {
             throw new ConfigurationError(
@@ -338,51 +916,24 @@ export class Factory<
             );
         }
 
-        const hasAsyncHooks =
-            this.beforeBuildHooks.some((hook) => isAsyncFunction(hook)) ||
-            this.afterBuildHooks.some((hook) => isAsyncFunction(hook));
-
-        if (hasAsyncHooks) {
+        if (this.hasAsyncHooks('build')) {
             throw new ConfigurationError(
                 'Async hooks detected. Use buildAsync() method to build instances with async hooks.',
             );
         }
 
         // Check if fixture generation is requested
-        const mergedOptions = {
-            ...this.options,
-            ...options,
-        } as FactoryOptions & O;
-        if (mergedOptions.generateFixture && mergedOptions.fixtures) {
-            const fixturePath =
-                typeof mergedOptions.generateFixture === 'string'
-                    ? mergedOptions.generateFixture
-                    : this.getDefaultFixturePath();
-
-            return this.buildWithFixture(fixturePath, kwargs, mergedOptions);
+        const fixturePath = this.resolveFixturePath(options);
+        if (fixturePath) {
+            return this.buildWithFixture(fixturePath, kwargs, {
+                ...this.options,
+                ...options,
+            } as BuildOptions<N, TransientParamsOf<F>> & FactoryOptions & O);
         }
 
         // Normal build without fixtures
-        let params = kwargs ?? {};
-
-        for (const hook of this.beforeBuildHooks) {
-            params = hook(params) as Partial<T>;
-        }
-
-        let result = this.#generate(0, params, 0);
-
-        if (result instanceof Promise) {
-            throw new ConfigurationError(
-                'Async factory function detected. Use buildAsync() method to build instances with async factories.',
-            );
-        }
-
-        for (const hook of this.afterBuildHooks) {
-            result = hook(result) as T;
-        }
-
-        return result;
-    };
+        return this.#buildInstance(0, kwargs, getNestedDepth(), options);
+    };
 
     /**
      * Builds an instance asynchronously with all registered hooks applied in sequence.
@@ -390,7 +941,7 @@ export class Factory<
      * Hooks are executed in the order they were registered.
      *
      * @param kwargs Optional properties to override in the generated instance
-     * @param options Factory options including fixture generation
+     * @param options Factory options including fixture generation, traits and transient parameters
      * @returns A promise that resolves to the built and processed instance
      * @throws {Error} If any hook throws an error during execution
      * @throws {FixtureError} If fixture operations fail
@@ -398,40 +949,68 @@ export class Factory<
      */
     async buildAsync(
         kwargs?: Partial<T>,
-        options?: Partial<O>,
+        options?: BuildOptions<N, TransientParamsOf<F>> & Partial<O>,
     ): Promise<F extends FactoryFunction<T> ? T : Partial<T>> {
         // Check if fixture generation is requested
-        const mergedOptions = {
-            ...this.options,
-            ...options,
-        } as FactoryOptions & O;
-        if (mergedOptions.generateFixture && mergedOptions.fixtures) {
-            const fixturePath =
-                typeof mergedOptions.generateFixture === 'string'
-                    ? mergedOptions.generateFixture
-                    : this.getDefaultFixturePath();
-
-            return this.buildWithFixtureAsync(
-                fixturePath,
-                kwargs,
-                mergedOptions,
-            );
+        const fixturePath = this.resolveFixturePath(options);
+        if (fixturePath) {
+            return this.buildWithFixtureAsync(fixturePath, kwargs, {
+                ...this.options,
+                ...options,
+            } as BuildOptions<N, TransientParamsOf<F>> & FactoryOptions & O);
         }
 
         // Normal build without fixtures
-        let params = kwargs ?? {};
+        return this.#buildInstanceAsync(0, kwargs, getNestedDepth(), options);
+    }
 
-        for (const hook of this.beforeBuildHooks) {
-            params = await hook(params);
+    /**
+     * Removes hooks, e.g. hooks inherited from the parent factory that should not apply to a derived factory.
+     * Register replacement hooks afterwards to override inherited behavior.
+     *
+     * @param type Optional hook type to clear. When omitted, all hooks are removed
+     * @returns The current Factory instance for method chaining
+     *
+     * @example
+     * ```typescript
+     * const RawUserFactory = UserFactory.extend(factoryFn).clearHooks('afterBuild');
+     * ```
+     */
+    clearHooks(
+        type?: 'afterBatch' | 'afterBuild' | 'beforeBatch' | 'beforeBuild',
+    ): this {
+        if (type === undefined || type === 'afterBatch') {
+            this.afterBatchHooks = [];
         }
-
-        let result = await this.#generateAsync(0, params, 0);
-
-        for (const hook of this.afterBuildHooks) {
-            result = await hook(result);
+        if (type === undefined || type === 'afterBuild') {
+            this.afterBuildHooks = [];
+        }
+        if (type === undefined || type === 'beforeBatch') {
+            this.beforeBatchHooks = [];
+        }
+        if (type === undefined || type === 'beforeBuild') {
+            this.beforeBuildHooks = [];
         }
+        return this;
+    }
 
-        return result;
+    /**
+     * Creates an independent copy of this factory with the same factory function, options,
+     * traits, hooks, adapter, unique constraints and seed.
+     * Sequence counters and tracked unique values are copied, so the copy continues from the
+     * current state without affecting this factory. Registration methods such as `afterBuild()`
+     * and `trait()` modify the instance they are called on; clone a shared factory before
+     * specialising it.
+     *
+     * @returns A new factory of the same class
+     *
+     * @example
+     * ```typescript
+     * const AdminFactory = UserFactory.clone().afterBuild((user) => ({ ...user, role: 'admin' }));
+     * ```
+     */
+    clone(): this {
+        return this.withOptions({});
     }
 
     /**
@@ -440,53 +1019,37 @@ export class Factory<
      *
      * @template U The composed type (must extend the base type T)
      * @param composition Object mapping property names to values or factories
-     * @returns A new factory that generates objects with combined properties
+     * @param options Controls whether the hooks and adapter of this factory are inherited
+     * @returns A new factory that generates objects with combined properties, inheriting the traits, sequences, hooks and adapter of this factory
      */
-    compose<U extends T>(composition: FactoryComposition<U>): Factory<U> {
-        return new Factory<U>(
+    compose<U extends T>(
+        composition: FactoryComposition<U>,
+        options?: DeriveOptions,
+    ): Factory<U, FactoryOptions, FactoryFunction<U>, N> {
+        const composed = new Factory<U, FactoryOptions, FactoryFunction<U>, N>(
             isAsyncFunction(this.factory)
-                ? async (factory, iteration, kwargs) => {
+                ? async (factory, iteration, kwargs, transient) => {
                       const baseValues = (await this.factory(
                           factory as unknown as Factory<T>,
                           iteration,
                           kwargs,
+                          transient,
                       )) as unknown as FactorySchema<U>;
-                      const composedValues = Object.fromEntries(
-                          Object.entries(composition).map(
-                              ([key, value]) =>
-                                  [
-                                      key,
-                                      value instanceof Factory
-                                          ? value.build()
-                                          : value,
-                                  ] as [string, unknown],
-                          ),
-                      );
                       return {
                           ...baseValues,
-                          ...composedValues,
+                          ...this.#composeValues(composition, factory, true),
                       } as FactorySchema<U>;
                   }
-                : (factory, iteration, kwargs) => {
+                : (factory, iteration, kwargs, transient) => {
                       const baseValues = this.factory(
                           factory as unknown as Factory<T>,
                           iteration,
                           kwargs,
+                          transient,
                       ) as unknown as FactorySchema<U>;
-                      const composedValues = Object.fromEntries(
-                          Object.entries(composition).map(
-                              ([key, value]) =>
-                                  [
-                                      key,
-                                      value instanceof Factory
-                                          ? value.build()
-                                          : value,
-                                  ] as [string, unknown],
-                          ),
-                      );
                       return {
                           ...baseValues,
-                          ...composedValues,
+                          ...this.#composeValues(composition, factory, false),
                       } as FactorySchema<U>;
                   },
             {
@@ -494,6 +1057,9 @@ export class Factory<
                 ...this.options,
             } as Partial<O>,
         );
+        this.inheritInto(composed, options);
+        composed.derivedFrom.push(composition);
+        return composed;
     }
 
     /**
@@ -501,9 +1067,9 @@ export class Factory<
      * Uses the configured persistence adapter if available.
      *
      * @param kwargs Optional properties to override in the generated instance
-     * @param options Options including an optional persistence adapter
+     * @param options Options including an optional persistence adapter, traits, transient parameters and the fixture to load the instance from
      * @returns Promise that resolves with the persisted instance
-     * @throws {ConfigurationError} If no persistence adapter is configured
+     * @throws {ConfigurationError} If no persistence adapter is configured, or the factory of a related instance has no default adapter
      *
      * @example
      * ```typescript
@@ -522,16 +1088,24 @@ export class Factory<
      * );
      * ```
      */
-    async create(kwargs?: Partial<T>, options?: CreateOptions<T>): Promise<T> {
-        const adapter = options?.adapter ?? this.defaultAdapter;
+    async create(
+        kwargs?: Partial<T>,
+        options?: CreateOptions<T, N, TransientParamsOf<F>>,
+    ): Promise<T> {
+        const { adapter: optionsAdapter, ...buildOptions } = options ?? {};
+        const adapter = optionsAdapter ?? this.defaultAdapter;
         if (!adapter) {
             throw new ConfigurationError(
                 'No persistence adapter configured. Provide an adapter in options or set a default adapter.',
             );
         }
 
-        const instance = await this.buildAsync(kwargs);
-        return adapter.create(instance as T);
+        const instance = await this.buildAsync(
+            kwargs,
+            buildOptions as BuildOptions<N, TransientParamsOf<F>> & Partial<O>,
+        );
+        this.#assertPersistable(instance as T, new Set());
+        return this.#persist(instance as T, adapter, new Map());
     }
 
     /**
@@ -540,9 +1114,9 @@ export class Factory<
      *
      * @param size Number of instances to create and persist
      * @param kwargs Optional overrides for the instances
-     * @param options Options including an optional persistence adapter
+     * @param options Options including an optional persistence adapter, traits and transient parameters
      * @returns Promise that resolves with the persisted instances
-     * @throws {ConfigurationError} If no persistence adapter is configured
+     * @throws {ConfigurationError} If no persistence adapter is configured, or the factory of a related instance has no default adapter
      *
      * @example
      * ```typescript
@@ -567,7 +1141,7 @@ export class Factory<
     async createMany(
         size: number,
         kwargs?: Partial<T> | Partial<T>[],
-        options?: CreateManyOptions<T>,
+        options?: CreateManyOptions<T, N, TransientParamsOf<F>>,
     ): Promise<T[]> {
         const adapter = options?.adapter ?? this.defaultAdapter;
         if (!adapter) {
@@ -576,10 +1150,24 @@ export class Factory<
             );
         }
 
-        const instances = await (isAsyncFunction(this.factory)
-            ? this.#batchAsync(size, kwargs, 0)
-            : this.#batch(this as unknown as Factory<T>, size, kwargs, 0));
-        return adapter.createMany(instances as T[]);
+        const depth = getNestedDepth();
+        const generate = () =>
+            isAsyncFunction(this.factory) || this.hasAsyncHooks('batch')
+                ? this.#batchAsync(size, kwargs, depth, options)
+                : Promise.resolve(this.#batch(size, kwargs, depth, options));
+        const fixturePath = this.resolveFixturePath(options);
+        const instances = await (fixturePath && size > 0
+            ? this.withFixtureAsync(
+                  fixturePath,
+                  this.getFixtureInputs(options, { kwargs, size }),
+                  generate,
+              )
+            : generate());
+        const checked = new Set<object>();
+        for (const instance of instances as T[]) {
+            this.#assertPersistable(instance, checked);
+        }
+        return this.#persistMany(instances as T[], adapter, new Map());
     }
 
     /**
@@ -588,17 +1176,27 @@ export class Factory<
      *
      * @template U The extended type (must extend the base type T)
      * @param factoryFn Function that returns properties to merge with the base schema
-     * @returns A new factory with inherited and extended properties
+     * @param options Controls whether the hooks and adapter of this factory are inherited
+     * @returns A new factory with inherited and extended properties, inheriting the traits, sequences, hooks and adapter of this factory
      */
-    extend<U extends T>(factoryFn: FactoryFunction<U>): Factory<U> {
-        return new Factory<U>(
-            (factory, iteration, kwargs) => {
+    extend<U extends T>(
+        factoryFn: FactoryFunction<U>,
+        options?: DeriveOptions,
+    ): Factory<U, FactoryOptions, FactoryFunction<U>, N> {
+        const extended = new Factory<U, FactoryOptions, FactoryFunction<U>, N>(
+            (factory, iteration, kwargs, transient) => {
                 const baseValues = this.factory(
                     factory as unknown as Factory<T>,
                     iteration,
                     kwargs,
+                    transient,
                 ) as unknown as FactorySchema<U>;
-                const extendedValues = factoryFn(factory, iteration, kwargs);
+                const extendedValues = factoryFn(
+                    factory,
+                    iteration,
+                    kwargs,
+                    transient,
+                );
                 if (
                     extendedValues instanceof Promise ||
                     baseValues instanceof Promise
@@ -617,6 +1215,48 @@ export class Factory<
                 ...this.options,
             } as Partial<O>,
         );
+        this.inheritInto(extended, options);
+        extended.derivedFrom.push(factoryFn);
+        return extended;
+    }
+
+    /**
+     * Declares that each instance has many instances of another factory.
+     * Building an instance builds `count` related instances into `name` with their `inverse` field set to
+     * the key of the instance, unless `name` is overridden. When the related factory declares a matching
+     * `belongsTo()`, the related instances are linked back to the instance. `create()` and `createMany()`
+     * persist the related instances after the instance through the adapter of their factory.
+     *
+     * @param name The field that holds the related instances
+     * @param factory The factory that builds the related instances
+     * @param options The number of related instances, their inverse foreign key field and the key field of the instance
+     * @returns The current Factory instance for method chaining
+     *
+     * @example
+     * ```typescript
+     * const UserFactory = new Factory<User>((factory) => ({
+     *   id: factory.string.uuid(),
+     *   posts: [],
+     * })).hasMany('posts', PostFactory, { count: 3, inverse: 'authorId' });
+     *
+     * const user = UserFactory.build();
+     * // user.posts.every((post) => post.authorId === user.id)
+     * ```
+     */
+    hasMany<U>(
+        name: keyof T & string,
+        factory: Factory<U>,
+        options: HasManyOptions<T, U>,
+    ): this {
+        this.associations.push({
+            count: options.count,
+            factory: factory as Factory<unknown>,
+            inverse: options.inverse,
+            kind: 'hasMany',
+            name,
+            primaryKey: options.primaryKey ?? 'id',
+        });
+        return this;
     }
 
     /**
@@ -634,19 +1274,112 @@ export class Factory<
         return generator.generate();
     }
 
+    /**
+     * Describes a batch of instances for an array field of a composition.
+     * The batch is built when the composed factory builds, within its depth limit.
+     *
+     * @param size The number of instances, or a range to draw the number from
+     * @returns A collection to use as a value in `compose()`
+     *
+     * @example
+     * ```typescript
+     * const PostFactory = BasePostFactory.compose<PostWithTags>({
+     *   tags: TagFactory.many({ max: 5, min: 1 }),
+     * });
+     * ```
+     */
+    many(size: CollectionSize): FactoryCollection<T> {
+        return new FactoryCollection(this as unknown as Factory<T>, size);
+    }
+
+    /**
+     * Registers a fixture migration that upgrades instances stored in fixtures by one version of
+     * the factory to the next. When a fixture of an older version is read, the migrations from its
+     * version up to the `version` option of the factory are applied and the upgraded fixture is
+     * written back, so that curated fixture values survive changes of the generated shape.
+     *
+     * @param fromVersion The factory version the migration upgrades from, to `fromVersion + 1`
+     * @param migrate Maps an instance of the old version to an instance of the new version; annotate
+     * its parameter with the shape of the old version, which is unknown to the factory
+     * @returns The current Factory instance for method chaining
+     * @throws {ConfigurationError} If the version is not a positive integer
+     *
+     * @example
+     * ```typescript
+     * const userFactory = new Factory<User>(factoryFn, { version: 2 })
+     *   // Version 2 added the role field
+     *   .migration(1, (user: Omit<User, 'role'>) => ({ ...user, role: 'member' }));
+     * ```
+     */
+    migration<I>(fromVersion: number, migrate: FixtureMigration<I>): this {
+        if (!Number.isInteger(fromVersion) || fromVersion < 1) {
+            throw new ConfigurationError(
+                'Migration version must be a positive integer',
+            );
+        }
+        this.migrations.set(fromVersion, migrate as FixtureMigration);
+        return this;
+    }
+
+    /**
+     * Returns the instance that an enclosing build is creating when called inside a nested build,
+     * e.g. in a factory whose `build()` or `batch()` is called through `use()`.
+     * Given a factory, the closest enclosing build of that factory, a copy of it or a factory derived
+     * from it is used, so the instance has the type the factory builds. Without a factory, the build
+     * directly above is used, whatever factory it belongs to.
+     * The returned object is the exact instance the enclosing build returns, so back-references keep their identity.
+     * Its properties are filled in once that build completes.
+     *
+     * @param factory The factory whose build to look up
+     * @returns The instance, or undefined when the factory is not built inside a matching build
+     *
+     * @example
+     * ```typescript
+     * const PostFactory = new Factory<Post>((faker) => ({
+     *   author: faker.parent(UserFactory) ?? faker.use(() => UserFactory.build()),
+     *   relatedPosts: faker.use(() => PostFactory.batch(2)),
+     *   title: faker.lorem.sentence(),
+     * }));
+     *
+     * const user = UserFactory.build(); // posts: faker.use(() => PostFactory.batch(3))
+     * user.posts[0].author === user; // true
+     * user.posts[0].relatedPosts[0].author === user; // true, the Post above is skipped
+     * ```
+     */
+    parent(): unknown;
+    parent<G extends ScenarioFactories[string]>(
+        factory: G,
+    ): FactoryInstance<G> | undefined;
+    parent(factory?: ScenarioFactories[string]): unknown {
+        return getAncestorInstance(
+            currentBuildFrame?.parent,
+            false,
+            factory && ((frame) => frame.factory.#isBasedOn(factory)),
+        );
+    }
+
     /**
      * Creates a new factory where all properties are optional (Partial<T>).
      * This is useful for creating test data where only specific fields need to be set.
      *
-     * @returns A new factory that produces Partial<T> objects
+     * @param options Controls whether the hooks and adapter of this factory are inherited
+     * @returns A new factory that produces Partial<T> objects, inheriting the traits, sequences, hooks and adapter of this factory
      */
-    partial(): Factory<Partial<T>> {
-        return new Factory<Partial<T>>(
-            (factory, iteration, kwargs) => {
+    partial(
+        options?: DeriveOptions,
+    ): Factory<Partial<T>, FactoryOptions, FactoryFunction<Partial<T>>, N> {
+        const partial = new Factory<
+            Partial<T>,
+            FactoryOptions,
+            FactoryFunction<Partial<T>>,
+            N
+        >(
+            (factory, iteration, kwargs, transient) => {
                 const fullValues = this.factory(
                     factory as unknown as Factory<T>,
                     iteration,
                     kwargs,
+                    transient,
                 );
                 if (fullValues instanceof Promise) {
                     return fullValues as Promise<FactorySchema<Partial<T>>>;
@@ -656,7 +1389,81 @@ export class Factory<
             {
                 maxDepth: this.options?.maxDepth ?? DEFAULT_MAX_DEPTH,
                 ...this.options,
-            } as Partial<O>,
+            },
+        );
+        this.inheritInto(partial, options);
+        return partial;
+    }
+
+    /**
+     * Removes a previously registered hook of any type, compared by reference.
+     * Inherited hooks can be removed with the same function reference that was registered on the parent.
+     *
+     * @param hook The hook function to remove
+     * @returns The current Factory instance for method chaining
+     */
+    removeHook(hook: (...args: never[]) => unknown): this {
+        const isOther = (registered: unknown) => registered !== hook;
+        this.afterBatchHooks = this.afterBatchHooks.filter(isOther);
+        this.afterBuildHooks = this.afterBuildHooks.filter(isOther);
+        this.beforeBatchHooks = this.beforeBatchHooks.filter(isOther);
+        this.beforeBuildHooks = this.beforeBuildHooks.filter(isOther);
+        return this;
+    }
+
+    /**
+     * Resets sequence counters so that the next value starts again at 1.
+     * Counters are shared with factories derived via `extend()`, `compose()` and `partial()`,
+     * so resetting affects them as well. Useful for test isolation, e.g. in `beforeEach`.
+     *
+     * @param name Optional sequence name. When omitted, all sequences are reset
+     * @returns The current Factory instance for method chaining
+     */
+    resetSequences(name?: string): this {
+        if (name === undefined) {
+            this.sequenceCounters.clear();
+        } else {
+            this.sequenceCounters.delete(name);
+        }
+        return this;
+    }
+
+    /**
+     * Clears the values recorded by the unique constraints of this factory, for the 'factory' and 'global' scopes.
+     * Useful for test isolation, e.g. in `beforeEach`.
+     *
+     * @returns The current Factory instance for method chaining
+     */
+    resetUnique(): this {
+        this.uniqueValues.clear();
+        for (const constraint of this.uniqueConstraints) {
+            if (constraint.scope === 'global') {
+                for (const field of constraint.fields) {
+                    globalUniqueValues.delete(field);
+                }
+            }
+        }
+        return this;
+    }
+
+    /**
+     * Returns the outermost instance under construction when called inside a nested build,
+     * e.g. the user at the top of `user.posts[0].comments[0]`.
+     * Given a factory, the outermost enclosing build of that factory, a copy of it or a factory derived from it is used.
+     * Like `parent()`, the returned object is the exact instance that build returns.
+     *
+     * @param factory The factory whose build to look up
+     * @returns The instance, or undefined when the factory is not built inside a matching build
+     */
+    root(): unknown;
+    root<G extends ScenarioFactories[string]>(
+        factory: G,
+    ): FactoryInstance<G> | undefined;
+    root(factory?: ScenarioFactories[string]): unknown {
+        return getAncestorInstance(
+            currentBuildFrame?.parent,
+            true,
+            factory && ((frame) => frame.factory.#isBasedOn(factory)),
         );
     }
 
@@ -664,6 +1471,7 @@ export class Factory<
      * Creates a generator that yields random values from an iterable without consecutive duplicates.
      * Each value is randomly selected with replacement, but the generator ensures the same value
      * is never returned twice in a row (unless the iterable contains only one element).
+     * Values are drawn from the factory's randomizer, so the output follows the factory seed.
      *
      * @template T The type of elements in the iterable
      * @param iterable An iterable containing values to sample from (must not be empty)
@@ -671,10 +1479,125 @@ export class Factory<
      * @throws {Error} If the iterable is empty
      */
     sample<U>(iterable: Iterable<U>): Generator<U, U, U> {
-        const generator = new SampleGenerator(iterable);
+        const generator = new SampleGenerator(iterable, () =>
+            this.number.float(),
+        );
         return generator.generate();
     }
 
+    /**
+     * Returns the next value of a named sequence.
+     * Unlike the iteration argument of the factory function, sequence counters persist across
+     * `build()` and `batch()` calls, starting at 1, and are shared with derived factories.
+     *
+     * @param name The sequence name
+     * @param formatter Optional function mapping the counter to the returned value
+     * @returns The formatted counter value, or the counter itself if no formatter is given
+     *
+     * @example
+     * ```typescript
+     * const UserFactory = new Factory<User>((factory) => ({
+     *   id: factory.sequence('id'),
+     *   username: factory.sequence('username', (n) => `user-${n}`),
+     * }));
+     *
+     * UserFactory.build(); // { id: 1, username: 'user-1' }
+     * UserFactory.batch(2); // ids 2 and 3
+     * ```
+     */
+    sequence(name: string): number;
+    sequence<R>(name: string, formatter: (n: number) => R): R;
+    sequence<R>(name: string, formatter?: (n: number) => R): number | R {
+        const next = (this.sequenceCounters.get(name) ?? 0) + 1;
+        this.sequenceCounters.set(name, next);
+        return formatter ? formatter(next) : next;
+    }
+
+    /**
+     * Registers a named trait, a reusable set of overrides that can be activated per build
+     * via the `traits` option of `build`, `batch`, `buildAsync`, `batchAsync`, `create` and `createMany`.
+     * Activated traits are layered in order on top of the factory defaults and before kwargs.
+     * Registering a trait under an existing name replaces the previous definition.
+     *
+     * @template K The trait name
+     * @param name The name used to activate the trait
+     * @param definition A partial schema, or a function receiving the factory, iteration and kwargs that returns one
+     * @returns The current Factory instance, typed with the new trait name, for method chaining
+     *
+     * @example
+     * ```typescript
+     * const UserFactory = new Factory<User>((faker) => ({
+     *   name: faker.person.fullName(),
+     *   role: 'user',
+     *   verified: false,
+     * }))
+     *   .trait('admin', { role: 'admin' })
+     *   .trait('verified', (faker) => ({ verified: true, verifiedAt: faker.date.past() }));
+     *
+     * const admin = UserFactory.build({ name: 'Ada' }, { traits: ['admin', 'verified'] });
+     * ```
+     */
+    trait<K extends string>(
+        name: K,
+        definition: TraitDefinition<T>,
+    ): Factory<T, O, F, K | N> {
+        if (
+            !isFunction(definition) &&
+            !isAsyncFunction(definition) &&
+            !isRecord(definition)
+        ) {
+            throw new TypeError('Trait must be an object or a function');
+        }
+        this.traitDefinitions.set(name, definition);
+        return this as unknown as Factory<T, O, F, K | N>;
+    }
+
+    /**
+     * Declares fields whose values must be unique, e.g. to match unique database indexes.
+     * On a collision the factory regenerates the colliding fields (or the whole object) up to
+     * `maxRetries` times, and throws a UniqueConstraintError when no unique value can be found.
+     * Overridden fields are not regenerated, so an override that collides throws without retrying.
+     * Applies to `build`, `batch`, their async variants, `create` and `createMany`.
+     *
+     * @param fields The fields that must each hold a unique value
+     * @param options The scope of uniqueness, the number of retries and what to regenerate
+     * @param options.maxRetries Number of regeneration attempts before a UniqueConstraintError is thrown, defaults to 10
+     * @param options.regenerate Whether to regenerate only the colliding fields ('field') or the whole object ('object'), defaults to 'field'
+     * @param options.scope Where values must be unique: within one call ('batch'), across all builds of the factory ('factory') or across all factories constraining a field of the same name ('global'), defaults to 'factory'
+     * @returns The current Factory instance for method chaining
+     *
+     * @example
+     * ```typescript
+     * const userFactory = new Factory<User>(factoryFn).unique(['email', 'username'], {
+     *   maxRetries: 20,
+     *   scope: 'global',
+     * });
+     *
+     * await userFactory.createMany(500); // no duplicate emails or usernames
+     * ```
+     */
+    unique(
+        fields: (keyof T & string)[],
+        {
+            maxRetries = DEFAULT_UNIQUE_MAX_RETRIES,
+            regenerate = 'field',
+            scope = 'factory',
+        }: UniqueOptions = {},
+    ): this {
+        if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+            throw new ConfigurationError(
+                'maxRetries must be a non-negative integer',
+            );
+        }
+        this.uniqueConstraints.push({
+            fields,
+            maxRetries,
+            regenerate,
+            scope,
+        });
+        return this;
+    }
+
     /**
      * Creates a reference to a function call for lazy evaluation within factory definitions.
      * The function and its arguments are stored but not executed until the factory builds an object.
@@ -690,10 +1613,11 @@ export class Factory<
     }
 
     /**
-     * Sets the default persistence adapter for this factory instance.
+     * Creates a copy of this factory with the given default persistence adapter.
+     * This factory keeps its own adapter.
      *
      * @param adapter The persistence adapter to use as default
-     * @returns The current Factory instance for method chaining
+     * @returns A new factory that uses the adapter for `create()` and `createMany()`
      *
      * @example
      * ```typescript
@@ -716,196 +1640,595 @@ export class Factory<
      * ```
      */
     withAdapter(adapter: PersistenceAdapter<T>): this {
-        this.defaultAdapter = adapter;
-        return this;
+        const copy = this.clone();
+        copy.defaultAdapter = adapter;
+        return copy;
     }
 
-    protected buildWithFixture(
-        filePath: string,
-        kwargs: Partial<T> | undefined,
-        _options: FactoryOptions & O,
-    ): F extends FactoryFunction<T> ? T : Partial<T> {
-        const fixtureConfig = this.getFixtureConfig();
-        const parsedPath = this.parseFixturePath(filePath, fixtureConfig);
-
-        try {
-            const existing = this.readFixture(parsedPath.fullPath);
-            if (existing) {
-                this.validateFixture(existing, fixtureConfig);
-                return existing.data as F extends FactoryFunction<T>
-                    ? T
-                    : Partial<T>;
-            }
-        } catch (error) {
-            if (error instanceof FixtureError) {
-                throw error;
-            }
-            if (
-                error instanceof FixtureValidationError &&
-                fixtureConfig.validateSignature
-            ) {
-                throw error;
-            }
+    /**
+     * Creates a copy of this factory with additional hooks.
+     * The hooks run after the hooks inherited from this factory, which keeps its own hooks.
+     *
+     * @param hooks A hook or a list of hooks per hook type
+     * @returns A new factory with the combined hooks
+     *
+     * @example
+     * ```typescript
+     * const VerifiedUserFactory = UserFactory.withHooks({
+     *   afterBuild: (user) => ({ ...user, verified: true }),
+     * });
+     * ```
+     */
+    withHooks(hooks: FactoryHooks<T, TransientParamsOf<F>>): this {
+        const copy = this.clone();
+        for (const hook of [hooks.beforeBatch ?? []].flat()) {
+            copy.beforeBatch(hook);
         }
-
-        // Generate new data
-        let params = kwargs ?? {};
-        for (const hook of this.beforeBuildHooks) {
-            params = hook(params) as Partial<T>;
+        for (const hook of [hooks.beforeBuild ?? []].flat()) {
+            copy.beforeBuild(hook);
         }
-
-        let result = this.#generate(0, params, 0);
-        if (result instanceof Promise) {
-            throw new ConfigurationError(
-                'Async factory function detected. Use buildAsync() method to build instances with async factories.',
-            );
+        for (const hook of [hooks.afterBuild ?? []].flat()) {
+            copy.afterBuild(hook);
         }
-
-        for (const hook of this.afterBuildHooks) {
-            result = hook(result) as T;
+        for (const hook of [hooks.afterBatch ?? []].flat()) {
+            copy.afterBatch(hook);
         }
-
-        // Save fixture
-        this.writeFixture(parsedPath, result, fixtureConfig);
-        return result;
+        return copy;
     }
 
-    protected async buildWithFixtureAsync(
-        filePath: string,
-        kwargs: Partial<T> | undefined,
-        _options: FactoryOptions & O,
-    ): Promise<F extends FactoryFunction<T> ? T : Partial<T>> {
-        const fixtureConfig = this.getFixtureConfig();
-        const parsedPath = this.parseFixturePath(filePath, fixtureConfig);
+    /**
+     * Creates a copy of this factory that generates data with the given Faker locale.
+     *
+     * @param locale The locale definition or a list of locale definitions in order of precedence
+     * @returns A new factory using the locale
+     *
+     * @example
+     * ```typescript
+     * import { de } from '@faker-js/faker';
+     *
+     * const GermanUserFactory = UserFactory.withLocale(de);
+     * ```
+     */
+    withLocale(locale: LocaleDefinition | LocaleDefinition[]): this {
+        return this.withOptions({ locale } as Partial<O>);
+    }
 
-        try {
-            const existing = this.readFixture(parsedPath.fullPath);
-            if (existing) {
-                this.validateFixture(existing, fixtureConfig);
-                return existing.data as F extends FactoryFunction<T>
-                    ? T
-                    : Partial<T>;
-            }
-        } catch (error) {
-            if (error instanceof FixtureError) {
-                throw error;
-            }
-            if (
-                error instanceof FixtureValidationError &&
-                fixtureConfig.validateSignature
-            ) {
-                throw error;
-            }
-        }
+    /**
+     * Creates a copy of this factory with the given options merged over its current options.
+     * Traits, hooks, the adapter, unique constraints, sequences and the seed are carried over.
+     *
+     * @param options The options to override, e.g. `maxDepth` or `fixtures`
+     * @returns A new factory with the merged options
+     *
+     * @example
+     * ```typescript
+     * const ShallowUserFactory = UserFactory.withOptions({ maxDepth: 1 });
+     * ```
+     */
+    withOptions(options: Partial<O>): this {
+        const copy = this.createInstance({
+            locale: this.rawDefinitions,
+            randomizer: this.randomizer,
+            ...this.options,
+            seed: this.seedValue,
+            ...options,
+        } as Partial<O>);
 
-        // Generate new data
-        let params = kwargs ?? {};
-        for (const hook of this.beforeBuildHooks) {
-            params = await hook(params);
+        for (const [name, definition] of this.traitDefinitions) {
+            copy.traitDefinitions.set(name, definition);
         }
+        copy.associations = [...this.associations];
+        copy.copiedFrom = this as unknown as Factory<unknown>;
+        copy.derivedFrom = [...this.derivedFrom];
+        copy.migrations = new Map(this.migrations);
+        copy.sequenceCounters = new Map(this.sequenceCounters);
+        copy.uniqueConstraints = [...this.uniqueConstraints];
+        copy.uniqueValues = new Map(
+            [...this.uniqueValues].map(([field, values]) => [
+                field,
+                new Set(values),
+            ]),
+        );
+        copy.beforeBuildHooks = [...this.beforeBuildHooks];
+        copy.afterBuildHooks = [...this.afterBuildHooks];
+        copy.beforeBatchHooks = [...this.beforeBatchHooks];
+        copy.afterBatchHooks = [...this.afterBatchHooks];
+        copy.defaultAdapter = this.defaultAdapter;
+        return copy;
+    }
 
-        let result = await this.#generateAsync(0, params, 0);
+    /**
+     * Creates a copy of this factory seeded with the given value, so that its builds are reproducible.
+     * The seed applies to the Faker methods, `sample()` and, for ZodFactory, schema generation.
+     * Factories derived via `extend()`, `compose()` and `partial()` are seeded with the same value.
+     *
+     * @param seed The seed value, e.g. a number printed by a failing test run
+     * @returns A new factory using the seed
+     *
+     * @example
+     * ```typescript
+     * const first = UserFactory.withSeed(42).build();
+     * const second = UserFactory.withSeed(42).build(); // deep-equals first
+     * ```
+     */
+    withSeed(seed: number): this {
+        return this.withOptions({ seed } as Partial<O>);
+    }
 
-        for (const hook of this.afterBuildHooks) {
-            result = await hook(result);
+    /**
+     * Builds the associations of a freshly generated instance that are not overridden by its kwargs.
+     *
+     * @param result The generated instance
+     * @param kwargs The overrides the instance was built with
+     * @param frame The build frame of the instance, if any
+     * @returns The instance with its associations
+     */
+    protected buildAssociations(
+        result: T,
+        kwargs: Partial<T>,
+        frame?: BuildFrame,
+    ): T {
+        for (const association of this.#getPendingAssociations(
+            result,
+            kwargs,
+        )) {
+            const build = () =>
+                association.kind === 'belongsTo'
+                    ? association.factory.build()
+                    : association.factory.batch(
+                          this.#getAssociationSize(association),
+                          this.#getInverseKwargs(result, association),
+                      );
+            this.#assignAssociation(
+                result,
+                association,
+                frame ? this.#runInFrame(frame, build) : build(),
+                frame,
+            );
         }
-
-        // Save fixture
-        this.writeFixture(parsedPath, result, fixtureConfig);
         return result;
     }
 
+    protected buildWithFixture(
+        filePath: string,
+        kwargs: Partial<T> | undefined,
+        options: BuildOptions<N, TransientParamsOf<F>> & FactoryOptions & O,
+    ): F extends FactoryFunction<T> ? T : Partial<T> {
+        const depth = getNestedDepth();
+        return this.withFixture(filePath, this.getFixtureInputs(options), () =>
+            this.#buildInstance(0, kwargs, depth, options),
+        ) as F extends FactoryFunction<T> ? T : Partial<T>;
+    }
+
+    protected async buildWithFixtureAsync(
+        filePath: string,
+        kwargs: Partial<T> | undefined,
+        options: BuildOptions<N, TransientParamsOf<F>> & FactoryOptions & O,
+    ): Promise<F extends FactoryFunction<T> ? T : Partial<T>> {
+        const depth = getNestedDepth();
+        return this.withFixtureAsync(
+            filePath,
+            this.getFixtureInputs(options),
+            () => this.#buildInstanceAsync(0, kwargs, depth, options),
+        ) as Promise<F extends FactoryFunction<T> ? T : Partial<T>>;
+    }
+
+    /**
+     * @param config Fixture configuration
+     * @param inputs Arguments of the call that are part of the signature, e.g. the size of a batch
+     * @returns SHA-256 hash of the signature inputs
+     */
     protected calculateSignature(
         config: Required<FixtureConfiguration>,
+        inputs?: Record<string, unknown>,
     ): string {
-        if (!createHash) {
-            throw new FixtureError(
-                'Fixture functionality is not available in browser environments',
-            );
-        }
-        const hash = createHash('sha256');
-
-        // Always include factory type name
-        hash.update(this.constructor.name);
+        const hash = createSignatureHash();
+        hash.update(JSON.stringify(this.describeSignature(config, inputs)));
+        return hash.digest('hex');
+    }
 
-        // Include factory function source if configured
-        if (config.includeSource) {
-            hash.update(this.factory.toString());
-        }
+    /**
+     * Completes the values generated for an instance once the factory function, traits and kwargs
+     * are merged. Every build path calls it, including the regenerations for unique constraints,
+     * so subclasses can override it, e.g. to fill in and validate the fields of a schema.
+     *
+     * @param values The merged values of the instance
+     * @returns The instance
+     */
+    protected completeInstance(values: T): T {
+        return values;
+    }
 
-        // Include options that affect generation
-        const relevantOptions = {
-            // Locale is part of constructor options, not a direct property
-            maxDepth: this.options?.maxDepth,
+    /**
+     * @internal
+     * @param options - Options of the current batch
+     * @param depth - Nesting depth of the batch instances
+     * @returns Context passed to the batch hooks
+     */
+    protected createBatchHookContext(
+        options: BuildOptions | undefined,
+        depth: number,
+    ): BatchHookContext<T, TransientParamsOf<F>> {
+        return {
+            depth,
+            factory: this as unknown as Factory<T>,
+            transient: (options?.transient ?? {}) as Partial<
+                TransientParamsOf<F>
+            >,
         };
-        hash.update(JSON.stringify(relevantOptions));
-
-        // Include hooks presence (not the actual functions to avoid unstable signatures)
-        hash.update(`beforeHooks:${this.beforeBuildHooks.length}`);
-        hash.update(`afterHooks:${this.afterBuildHooks.length}`);
-
-        return hash.digest('hex');
     }
 
     /**
      * @internal
      * @param depth - Current depth in recursive generation
      * @param isAsync - Whether to create async handlers
+     * @param frame - The build the proxy is passed to, used by `parent()` and `root()`
      * @returns Depth-limited proxy factory for recursive generation
      */
     protected createDepthLimitedProxy(
         depth: number,
         isAsync: boolean,
+        frame?: BuildFrame,
     ): Factory<T> {
         return new Proxy(this, {
             get: (target: Factory<T, O, F>, prop: string | symbol) => {
+                if (frame && (prop === 'parent' || prop === 'root')) {
+                    return (factory?: ScenarioFactories[string]) =>
+                        getAncestorInstance(
+                            frame.parent,
+                            prop === 'root',
+                            factory &&
+                                ((ancestor) =>
+                                    ancestor.factory.#isBasedOn(factory)),
+                        );
+                }
                 if (prop === 'build') {
                     return isAsync
-                        ? (buildKwargs?: Partial<T>) =>
-                              target.#generateAsync(0, buildKwargs, depth + 1)
-                        : (buildKwargs?: Partial<T>) =>
-                              target.#generate(0, buildKwargs, depth + 1);
+                        ? (
+                              buildKwargs?: Partial<T>,
+                              buildOptions?: BuildOptions,
+                          ) =>
+                              target.#buildInstanceAsync(
+                                  0,
+                                  buildKwargs,
+                                  depth + 1,
+                                  buildOptions,
+                              )
+                        : (
+                              buildKwargs?: Partial<T>,
+                              buildOptions?: BuildOptions,
+                          ) =>
+                              target.#buildInstance(
+                                  0,
+                                  buildKwargs,
+                                  depth + 1,
+                                  buildOptions,
+                              );
                 }
                 if (prop === 'batch') {
                     return isAsync
                         ? (
                               size: number,
                               batchKwargs?: Partial<T> | Partial<T>[],
-                          ) => target.#batchAsync(size, batchKwargs, depth)
+                              batchOptions?: BuildOptions,
+                          ) =>
+                              target.#batchAsync(
+                                  size,
+                                  batchKwargs,
+                                  depth + 1,
+                                  batchOptions,
+                              )
                         : (
                               size: number,
                               batchKwargs?: Partial<T> | Partial<T>[],
+                              batchOptions?: BuildOptions,
                           ) =>
                               target.#batch(
-                                  target as unknown as Factory<T>,
                                   size,
                                   batchKwargs,
-                                  depth,
+                                  depth + 1,
+                                  batchOptions,
                               );
                 }
                 return Reflect.get(target, prop) as unknown;
             },
-        }) as Factory<T>;
+        }) as unknown as Factory<T>;
+    }
+
+    /**
+     * @internal
+     * @param options - Options of the current build
+     * @param iteration - Index of the instance within its batch
+     * @param kwargs - Overrides originally passed for the instance
+     * @param depth - Nesting depth of the instance
+     * @returns Context passed to the build hooks
+     */
+    protected createHookContext(
+        options: BuildOptions | undefined,
+        iteration: number,
+        kwargs: Partial<T> | undefined,
+        depth: number,
+    ): HookContext<T, TransientParamsOf<F>> {
+        return {
+            ...this.createBatchHookContext(options, depth),
+            iteration,
+            kwargs: kwargs ?? {},
+        };
+    }
+
+    /**
+     * Creates a bare instance of this factory's class with the given options.
+     * Subclasses with a different constructor signature override this to support `clone()`.
+     *
+     * @param options The options for the new instance
+     * @returns A new factory without traits, hooks or adapter
+     */
+    protected createInstance(options: Partial<O>): this {
+        const FactoryClass = this.constructor as new (
+            factory: F,
+            options: Partial<O>,
+        ) => this;
+        return new FactoryClass(this.factory, options);
+    }
+
+    /**
+     * Collects the inputs of the fixture signature. They are stored in fixtures, so that a
+     * signature mismatch can be explained by the inputs that changed.
+     *
+     * @param config Fixture configuration
+     * @param inputs Arguments of the call that are part of the signature, e.g. the size of a batch
+     * @returns The signature inputs as JSON-compatible data
+     */
+    protected describeSignature(
+        config: Required<FixtureConfiguration>,
+        inputs?: Record<string, unknown>,
+    ): Record<string, unknown> {
+        const hooks = {
+            afterBatch: this.afterBatchHooks,
+            afterBuild: this.afterBuildHooks,
+            beforeBatch: this.beforeBatchHooks,
+            beforeBuild: this.beforeBuildHooks,
+        };
+
+        return {
+            // Related factories are described by name, as they may refer back to this factory
+            associations: this.associations.map(
+                ({ factory, ...association }) => ({
+                    ...association,
+                    factory: factory.getFactoryName(),
+                }),
+            ),
+            // The factories and additions a derived factory was created from
+            derivedFrom: this.derivedFrom.map((part) =>
+                this.#describeSignaturePart(part, config),
+            ),
+            hooks: Object.fromEntries(
+                Object.entries(hooks).map(([type, list]) => [
+                    type,
+                    config.includeSource
+                        ? {
+                              count: list.length,
+                              sourceHash: hashSource(
+                                  list.map(String).join('\n'),
+                              ),
+                          }
+                        : { count: list.length },
+                ]),
+            ),
+            // The inputs of the call the fixture was generated by, e.g. the size of a batch
+            inputs: inputs && this.#describeSignaturePart(inputs, config),
+            name: this.getFactoryName(),
+            // Options that affect generation
+            options: {
+                locale: this.getMetadata().code,
+                maxDepth: this.options?.maxDepth,
+                seed: this.seedValue,
+                version: this.#getFactoryVersion(),
+            },
+            sourceHash: config.includeSource
+                ? hashSource(this.factory.toString())
+                : undefined,
+            traits: Object.fromEntries(
+                [...this.traitDefinitions].map(([name, definition]) => [
+                    name,
+                    this.#describeSignaturePart(definition, config),
+                ]),
+            ),
+            unique: [...this.uniqueConstraints],
+        };
+    }
+
+    /**
+     * @internal
+     * @param result - Generated instance to check against the unique constraints
+     * @param regenerate - Generates a fresh instance used to replace colliding values
+     * @param batchValues - Values recorded for the 'batch' scope of the current call
+     * @param kwargs - Overrides of the instance, which are never regenerated
+     * @returns The instance with unique values, which are recorded as used
+     * @throws {UniqueConstraintError} If an override collides with a used value, or no unique value is found within the allowed retries
+     */
+    protected ensureUnique(
+        result: T,
+        regenerate: () => T,
+        batchValues: UniqueValues = new Map(),
+        kwargs?: Partial<T>,
+    ): T {
+        this.#assertUniqueOverrides(kwargs, batchValues);
+        let current = result;
+        let collisions = this.#findUniqueCollisions(current, batchValues, 0);
+        for (let attempt = 1; collisions.length; attempt++) {
+            current = this.#mergeRegenerated(current, regenerate(), collisions);
+            collisions = this.#findUniqueCollisions(
+                current,
+                batchValues,
+                attempt,
+            );
+        }
+        this.#recordUniqueValues(current, batchValues);
+        return current;
+    }
+
+    /**
+     * @internal
+     * @param size - Number of instances in the batch
+     * @param batchKwargs - A single override applied to all instances, or overrides cycled per instance
+     * @returns The overrides of every instance of the batch
+     */
+    protected expandBatchKwargs(
+        size: number,
+        batchKwargs: Partial<T> | Partial<T>[] | undefined,
+    ): Partial<T>[] {
+        if (!batchKwargs) {
+            return Array.from({ length: size }, () => ({}));
+        }
+        const generator = this.iterate<Partial<T>>(
+            Array.isArray(batchKwargs) ? batchKwargs : [batchKwargs],
+        );
+        return Array.from({ length: size }, () => generator.next().value);
     }
 
+    /**
+     * Derives a fixture path that is stable across runs from the calling module, the running
+     * Vitest or Jest test and the number of default paths requested in that test so far,
+     * e.g. `src/user.spec/creates-a-user-user-1`.
+     *
+     * @returns The path, relative to the configured base path
+     */
     protected getDefaultFixturePath(): string {
-        // Generate a default fixture path based on the factory name and current timestamp
-        const timestamp = Date.now();
-        const factoryName = this.constructor.name;
-        return `${factoryName.toLowerCase()}-${timestamp}`;
+        const callerFile = getCallerFile();
+        const testName = getCurrentTestName();
+
+        let moduleDir = '';
+        if (callerFile && path) {
+            const relativePath = path.relative(
+                this.getFixtureConfig().basePath,
+                callerFile,
+            );
+            const modulePath =
+                relativePath.startsWith('..') || path.isAbsolute(relativePath)
+                    ? path.basename(callerFile)
+                    : relativePath;
+            moduleDir = modulePath.slice(
+                0,
+                modulePath.length - path.extname(modulePath).length,
+            );
+        }
+        const fileName = [
+            testName
+                ?.toLowerCase()
+                .replaceAll(/[^\da-z]+/g, '-')
+                .replaceAll(/^-|-$/g, ''),
+            this.getFactoryName().toLowerCase(),
+        ]
+            .filter(Boolean)
+            .join('-');
+
+        const key = moduleDir ? `${moduleDir}/${fileName}` : fileName;
+        const ordinal = (defaultFixtureOrdinals.get(key) ?? 0) + 1;
+        defaultFixtureOrdinals.set(key, ordinal);
+        return `${key}-${ordinal}`;
+    }
+
+    protected getFactoryName(): string {
+        return this.options?.name ?? this.constructor.name;
     }
 
     protected getFixtureConfig(): Required<FixtureConfiguration> {
         return {
-            basePath: this.options?.fixtures?.basePath ?? process.cwd(),
+            basePath:
+                this.options?.fixtures?.basePath ??
+                (typeof process === 'undefined' ? '' : process.cwd()),
+            codecs: this.options?.fixtures?.codecs ?? [],
             directory: this.options?.fixtures?.directory ?? '__fixtures__',
             includeSource: this.options?.fixtures?.includeSource ?? true,
+            store: this.options?.fixtures?.store ?? defaultFixtureStore,
+            update: this.options?.fixtures?.update ?? isFixtureUpdateEnabled(),
             useSubdirectory: this.options?.fixtures?.useSubdirectory ?? true,
             validateSignature:
                 this.options?.fixtures?.validateSignature ?? true,
         };
     }
 
+    /**
+     * @param options Build options of the call
+     * @param inputs Further arguments of the call, e.g. the size and kwargs of a batch
+     * @returns The arguments of the call that are part of the fixture signature, including the traits and transient parameters
+     */
+    protected getFixtureInputs(
+        options: BuildOptions<N, TransientParamsOf<F>> | undefined,
+        inputs?: Record<string, unknown>,
+    ): Record<string, unknown> {
+        return {
+            ...inputs,
+            traits: options?.traits,
+            transient: options?.transient,
+        };
+    }
+
+    /**
+     * @internal
+     * @param scope - 'build' checks the build hooks, 'batch' additionally checks the batch hooks
+     * @returns True if any hook of the scope is an async function
+     */
+    protected hasAsyncHooks(scope: 'batch' | 'build'): boolean {
+        const hooks: unknown[] = [
+            ...this.beforeBuildHooks,
+            ...this.afterBuildHooks,
+            ...(scope === 'batch'
+                ? [...this.beforeBatchHooks, ...this.afterBatchHooks]
+                : []),
+        ];
+        return hooks.some((hook) => isAsyncFunction(hook));
+    }
+
+    /**
+     * @internal
+     * @param target - Derived factory that copies the traits, hooks and adapter and shares the sequence counters of this factory
+     * @param options - Controls whether the hooks and adapter are copied
+     */
+    protected inheritInto<U>(
+        target: Factory<U, FactoryOptions, FactoryFunction<U>, N>,
+        options?: DeriveOptions,
+    ): void {
+        for (const [name, definition] of this.traitDefinitions) {
+            target.traitDefinitions.set(
+                name,
+                definition as unknown as TraitDefinition<U>,
+            );
+        }
+        target.associations = [...this.associations];
+        target.derivedFrom = [this];
+        target.migrations = new Map(this.migrations);
+        target.sequenceCounters = this.sequenceCounters;
+        if (this.seedValue !== undefined) {
+            target.#applySeed(this.seedValue);
+        }
+
+        const inherit = options?.inherit ?? true;
+        const { adapter = true, hooks = true } =
+            typeof inherit === 'boolean'
+                ? { adapter: inherit, hooks: inherit }
+                : inherit;
+        if (hooks) {
+            target.beforeBuildHooks = [
+                ...this.beforeBuildHooks,
+            ] as unknown as BeforeBuildHook<U>[];
+            target.afterBuildHooks = [
+                ...this.afterBuildHooks,
+            ] as unknown as AfterBuildHook<U>[];
+            target.beforeBatchHooks = [
+                ...this.beforeBatchHooks,
+            ] as unknown as BeforeBatchHook<U>[];
+            target.afterBatchHooks = [
+                ...this.afterBatchHooks,
+            ] as unknown as AfterBatchHook<U>[];
+        }
+        if (adapter && this.defaultAdapter) {
+            target.defaultAdapter = this
+                .defaultAdapter as unknown as PersistenceAdapter<U>;
+        }
+    }
+
     /**
      * @internal
      * @param depth - Current depth in recursive generation
@@ -915,26 +2238,69 @@ export class Factory<
         return depth >= (this.options?.maxDepth ?? DEFAULT_MAX_DEPTH);
     }
 
+    /**
+     * Reads and validates the fixture at the given path. Fixtures of older factory versions are
+     * migrated and written back. In update mode, a fixture whose signature has changed or that
+     * cannot be migrated is treated as missing so that it is regenerated.
+     *
+     * @param parsedPath The fixture path
+     * @param parsedPath.fixturesDir The directory of the fixture
+     * @param parsedPath.fullPath The full path of the fixture file
+     * @param config The fixture configuration
+     * @param inputs Arguments of the call that are part of the fixture signature
+     * @returns The fixture, or null if it has to be generated
+     * @throws {FixtureError} If the fixture cannot be read
+     * @throws {FixtureValidationError} If the fixture was generated by a different factory signature or lacks a migration, outside update mode
+     */
+    protected loadFixture(
+        parsedPath: { fixturesDir: string; fullPath: string },
+        config: Required<FixtureConfiguration>,
+        inputs?: Record<string, unknown>,
+    ): FixtureMetadata | null {
+        const { fullPath } = parsedPath;
+        const existing = this.readFixture(fullPath);
+        if (!existing) {
+            return null;
+        }
+        try {
+            if ((existing.factoryVersion ?? 1) < this.#getFactoryVersion()) {
+                existing.data = this.#migrateFixtureData(
+                    existing.data,
+                    existing.factoryVersion ?? 1,
+                    inputs,
+                );
+                this.writeFixture(parsedPath, existing.data, config, inputs);
+                return existing;
+            }
+            this.validateFixture(existing, config, inputs);
+        } catch (error) {
+            if (config.update && error instanceof FixtureValidationError) {
+                return null;
+            }
+            throw error;
+        }
+        if (!fixtureStatuses.has(fullPath)) {
+            fixtureStatuses.set(fullPath, 'unchanged');
+        }
+        return existing;
+    }
+
     protected parseFixturePath(
         filePath: string,
         config: Required<FixtureConfiguration>,
     ): { fixturesDir: string; fullPath: string } {
-        if (!path) {
-            throw new FixtureError(
-                'Fixture functionality is not available in browser environments',
-            );
-        }
         if (!filePath.trim()) {
             throw new FixtureError('Fixture file path cannot be empty');
         }
 
-        const resolvedPath = path.isAbsolute(filePath)
+        const pathApi = path ?? posixPath;
+        const resolvedPath = pathApi.isAbsolute(filePath)
             ? filePath
-            : path.join(config.basePath, filePath);
+            : pathApi.join(config.basePath, filePath);
 
-        const dir = path.dirname(resolvedPath);
-        const fileName = path.basename(resolvedPath);
-        const ext = path.extname(fileName);
+        const dir = pathApi.dirname(resolvedPath);
+        const fileName = pathApi.basename(resolvedPath);
+        const ext = pathApi.extname(fileName);
 
         const jsonFileName =
             ext === '.json'
@@ -948,51 +2314,254 @@ export class Factory<
 
         if (config.useSubdirectory && config.directory) {
             // Use subdirectory structure (default behavior)
-            fixturesDir = path.join(dir, config.directory);
-            fullPath = path.join(fixturesDir, jsonFileName);
+            fixturesDir = pathApi.join(dir, config.directory);
+            fullPath = pathApi.join(fixturesDir, jsonFileName);
         } else {
             // Store directly in the specified directory
             fixturesDir = dir;
-            fullPath = path.join(dir, jsonFileName);
+            fullPath = pathApi.join(dir, jsonFileName);
         }
 
         return { fixturesDir, fullPath };
     }
 
     protected readFixture(fullPath: string): FixtureMetadata | null {
-        if (!fs) {
+        const { codecs, store } = this.getFixtureConfig();
+        try {
+            const content = store.read(fullPath);
+            if (content === null) {
+                return null;
+            }
+            const metadata = JSON.parse(content) as FixtureMetadata;
+            if (metadata.version >= 2) {
+                metadata.data = decodeFixtureValue(metadata.data, codecs);
+            }
+            return metadata;
+        } catch (error) {
             throw new FixtureError(
-                'Fixture functionality is not available in browser environments',
+                `Failed to read fixture from ${fullPath}: ${(error as Error).message}`,
             );
         }
-        if (!fs.existsSync(fullPath)) {
-            return null;
+    }
+
+    /**
+     * @internal
+     * @param options - Options of the current call, merged over the factory options
+     * @returns The fixture path requested via `generateFixture`, or undefined if no fixture is requested
+     */
+    protected resolveFixturePath(
+        options?: Pick<FactoryOptions, 'fixtures' | 'generateFixture'>,
+    ): string | undefined {
+        const { fixtures, generateFixture } = { ...this.options, ...options };
+        if (!generateFixture || !fixtures) {
+            return undefined;
         }
+        return typeof generateFixture === 'string'
+            ? generateFixture
+            : this.getDefaultFixturePath();
+    }
 
-        try {
-            const content = fs.readFileSync(fullPath, 'utf8');
-            return JSON.parse(content) as FixtureMetadata;
-        } catch (error) {
-            throw new FixtureError(
-                `Failed to read fixture from ${fullPath}: ${(error as Error).message}`,
+    /**
+     * @internal
+     * @param traits - Names of the traits to resolve, in activation order
+     * @param factory - Factory instance passed to trait functions
+     * @param iteration - Current iteration passed to trait functions
+     * @param kwargs - Overrides passed to trait functions
+     * @param transient - Transient parameters passed to trait functions
+     * @returns The parsed override values of each trait
+     * @throws {ConfigurationError} If a trait is unknown or resolves asynchronously
+     */
+    protected resolveTraits(
+        traits: readonly string[] | undefined,
+        factory: Factory<T>,
+        iteration: number,
+        kwargs?: Partial<T>,
+        transient: TransientParams = {},
+    ): Partial<T>[] {
+        if (!traits?.length) {
+            return [];
+        }
+        return traits.map((name) => {
+            const values = this.#getTraitValues(
+                name,
+                factory,
+                iteration,
+                kwargs,
+                transient,
             );
+            if (values instanceof Promise) {
+                throw new ConfigurationError(
+                    `Trait "${name}" resolves asynchronously. Use buildAsync() method to build instances with async traits.`,
+                );
+            }
+            return this.#parseValue(values) as Partial<T>;
+        });
+    }
+
+    /**
+     * @internal
+     * @param hooks - Hooks to run in registration order, each receiving the result of the previous one
+     * @param value - Value passed to the first hook
+     * @param context - Context passed to every hook
+     * @returns The value returned by the last hook
+     */
+    protected runHooks<V, C>(
+        hooks: readonly ((value: V, context: C) => Promise<V> | V)[],
+        value: V,
+        context: C,
+    ): V {
+        let result = value;
+        for (const hook of hooks) {
+            result = hook(result, context) as V;
+        }
+        return result;
+    }
+
+    /**
+     * @internal
+     * @param hooks - Hooks to run in registration order, each receiving the result of the previous one
+     * @param value - Value passed to the first hook
+     * @param context - Context passed to every hook
+     * @returns The value returned by the last hook
+     */
+    protected async runHooksAsync<V, C>(
+        hooks: readonly ((value: V, context: C) => Promise<V> | V)[],
+        value: V,
+        context: C,
+    ): Promise<V> {
+        let result = value;
+        for (const hook of hooks) {
+            result = await hook(result, context);
         }
+        return result;
     }
 
     protected validateFixture(
         metadata: FixtureMetadata,
         config: Required<FixtureConfiguration>,
+        inputs?: Record<string, unknown>,
     ): void {
         if (!config.validateSignature) {
             return;
         }
 
-        const currentSignature = this.calculateSignature(config);
+        const signatureInputs = this.describeSignature(config, inputs);
+        const currentSignature = this.calculateSignature(config, inputs);
         if (metadata.signature !== currentSignature) {
+            // Fixtures written before the signature inputs were stored can only report the hashes
+            const changes = metadata.signatureInputs
+                ? diffSignatureInputs(metadata.signatureInputs, signatureInputs)
+                : [];
+            const details = changes.map(
+                (change) => `\n  ${formatSignatureChange(change)}`,
+            );
             throw new FixtureValidationError(
-                `Factory signature has changed. Current: ${currentSignature}, Fixture: ${metadata.signature}. ` +
-                    `Delete the fixture file to regenerate it.`,
+                `Factory signature has changed. Current: ${currentSignature}, Fixture: ${metadata.signature}.${
+                    details.length > 0
+                        ? `\nChanged inputs:${details.join('')}\n`
+                        : ' '
+                }Delete the fixture file or enable fixture update mode to regenerate it.`,
+                changes,
+            );
+        }
+    }
+
+    /**
+     * Returns the data of the fixture at the given path, or generates and stores it.
+     *
+     * @param filePath The fixture path, relative to the configured base path
+     * @param inputs Arguments of the call that are part of the fixture signature, e.g. the size of a batch
+     * @param generate Generates the data if no valid fixture exists
+     * @returns The cached or generated data
+     * @throws {FixtureError} If fixture operations fail
+     * @throws {FixtureValidationError} If the fixture was generated by a different factory signature outside update mode
+     */
+    protected withFixture<R>(
+        filePath: string,
+        inputs: Record<string, unknown> | undefined,
+        generate: () => R,
+    ): R {
+        const fixtureConfig = this.getFixtureConfig();
+        const parsedPath = this.parseFixturePath(filePath, fixtureConfig);
+
+        const existing = this.loadFixture(parsedPath, fixtureConfig, inputs);
+        if (existing) {
+            return existing.data as R;
+        }
+
+        // Only the first writer generates the fixture, others read its output
+        const release = this.#lockFixture(parsedPath.fullPath, fixtureConfig);
+        try {
+            const written = this.loadFixture(parsedPath, fixtureConfig, inputs);
+            if (written) {
+                return written.data as R;
+            }
+
+            const result = generate();
+            this.writeFixture(parsedPath, result, fixtureConfig, inputs);
+            return result;
+        } finally {
+            release();
+        }
+    }
+
+    /**
+     * Async variant of `withFixture()`.
+     *
+     * @param filePath The fixture path, relative to the configured base path
+     * @param inputs Arguments of the call that are part of the fixture signature, e.g. the size of a batch
+     * @param generate Generates the data if no valid fixture exists
+     * @returns Promise that resolves with the cached or generated data
+     * @throws {FixtureError} If fixture operations fail
+     * @throws {FixtureValidationError} If the fixture was generated by a different factory signature outside update mode
+     */
+    protected async withFixtureAsync<R>(
+        filePath: string,
+        inputs: Record<string, unknown> | undefined,
+        generate: () => Promise<R>,
+    ): Promise<R> {
+        const fixtureConfig = this.getFixtureConfig();
+        const parsedPath = this.parseFixturePath(filePath, fixtureConfig);
+
+        const existing = this.loadFixture(parsedPath, fixtureConfig, inputs);
+        if (existing) {
+            return existing.data as R;
+        }
+
+        // Wait for a generation of the same fixture in progress in this process
+        const pending = pendingFixtures.get(parsedPath.fullPath);
+        if (pending) {
+            await pending.catch(() => undefined);
+            return this.withFixtureAsync(filePath, inputs, generate);
+        }
+
+        const generation = (async () => {
+            const release = this.#lockFixture(
+                parsedPath.fullPath,
+                fixtureConfig,
             );
+            try {
+                const written = this.loadFixture(
+                    parsedPath,
+                    fixtureConfig,
+                    inputs,
+                );
+                if (written) {
+                    return written.data as R;
+                }
+
+                const result = await generate();
+                this.writeFixture(parsedPath, result, fixtureConfig, inputs);
+                return result;
+            } finally {
+                release();
+            }
+        })();
+        pendingFixtures.set(parsedPath.fullPath, generation);
+        try {
+            return await generation;
+        } finally {
+            pendingFixtures.delete(parsedPath.fullPath);
         }
     }
 
@@ -1000,28 +2569,28 @@ export class Factory<
         parsedPath: { fixturesDir: string; fullPath: string },
         data: unknown,
         config: Required<FixtureConfiguration>,
+        inputs?: Record<string, unknown>,
     ): void {
-        if (!fs) {
-            throw new FixtureError(
-                'Fixture functionality is not available in browser environments',
-            );
-        }
         try {
-            if (!fs.existsSync(parsedPath.fixturesDir)) {
-                fs.mkdirSync(parsedPath.fixturesDir, { recursive: true });
-            }
+            const status =
+                config.store.read(parsedPath.fullPath) === null
+                    ? 'created'
+                    : 'updated';
 
             const metadata: FixtureMetadata = {
                 createdAt: new Date().toISOString(),
-                data,
-                signature: this.calculateSignature(config),
-                version: 1,
+                data: encodeFixtureValue(data, config.codecs),
+                factoryVersion: this.#getFactoryVersion(),
+                signature: this.calculateSignature(config, inputs),
+                signatureInputs: this.describeSignature(config, inputs),
+                version: FIXTURE_VERSION,
             };
 
-            fs.writeFileSync(
+            config.store.write(
                 parsedPath.fullPath,
                 JSON.stringify(metadata, null, 2),
             );
+            fixtureStatuses.set(parsedPath.fullPath, status);
         } catch (error) {
             throw new FixtureError(
                 `Failed to write fixture to ${parsedPath.fullPath}: ${(error as Error).message}`,
@@ -1029,139 +2598,869 @@ export class Factory<
         }
     }
 
-    #batch(
-        target: Factory<T>,
-        size: number,
-        batchKwargs: Partial<T> | Partial<T>[] | undefined,
-        depth: number,
-    ): T[] {
-        if (this.isDepthExceeded(depth + 1)) {
-            return null as unknown as T[];
-        }
-        validateBatchSize(size);
-        if (size === 0) {
-            return [];
-        }
-        if (batchKwargs) {
-            const generator = target.iterate<Partial<T>>(
-                Array.isArray(batchKwargs)
-                    ? batchKwargs
-                    : ([batchKwargs] as Partial<T>[]),
-            );
-            return new Array(size)
-                .fill(null)
-                .map((_, i) =>
-                    target.#generate(i, generator.next().value, depth + 1),
-                ) as T[];
-        }
-        return new Array(size)
-            .fill(null)
-            .map((_, i) => target.#generate(i, undefined, depth + 1)) as T[];
+    #applySeed(seed: number): void {
+        this.seedValue = seed;
+        this.seed(seed);
     }
 
-    async #batchAsync(
-        size: number,
-        batchKwargs: Partial<T> | Partial<T>[] | undefined,
-        depth: number,
-    ): Promise<F extends FactoryFunction<T> ? T[] : Partial<T>[]> {
-        if (this.isDepthExceeded(depth + 1)) {
-            return null as unknown as T[];
+    /**
+     * Overridden fields keep their value on every regeneration, so a collision can never be resolved by retrying.
+     *
+     * @param kwargs The overrides of the instance
+     * @param batchValues Values recorded for the 'batch' scope of the current call
+     */
+    /**
+     * Checks that every related instance reachable from the instance can be persisted, before anything is written.
+     *
+     * @param instance The instance to persist
+     * @param checked The instances already checked, to stop at back-references
+     * @throws {ConfigurationError} If a related factory has no default adapter
+     */
+    #assertPersistable(instance: T, checked: Set<object>): void {
+        if (!isRecord(instance) || checked.has(instance)) {
+            return;
         }
-        validateBatchSize(size);
+        checked.add(instance);
 
-        if (size === 0) {
-            return [];
-        }
-        if (batchKwargs) {
-            const generator = this.iterate<Partial<T>>(
-                Array.isArray(batchKwargs)
-                    ? batchKwargs
-                    : ([batchKwargs] as Partial<T>[]),
-            );
-            const promises = new Array(size)
-                .fill(null)
-                .map((_, i) =>
-                    this.#generateAsync(i, generator.next().value, depth + 1),
-                );
-            return Promise.all(promises);
+        for (const association of this.associations) {
+            const value = instance[association.name];
+            const related =
+                association.kind === 'belongsTo'
+                    ? [value]
+                    : Array.isArray(value)
+                      ? value
+                      : [];
+            for (const item of related) {
+                if (isRecord(item)) {
+                    this.#getAssociationAdapter(association);
+                    association.factory.#assertPersistable(item, checked);
+                }
+            }
         }
-
-        const promises = new Array(size)
-            .fill(null)
-            .map((_, i) => this.#generateAsync(i, undefined, depth + 1));
-
-        return Promise.all(promises);
     }
 
-    #generate(
+    #assertUniqueOverrides(
+        kwargs: Partial<T> | undefined,
+        batchValues: UniqueValues,
+    ): void {
+        if (!kwargs) {
+            return;
+        }
+        for (const constraint of this.uniqueConstraints) {
+            for (const field of constraint.fields) {
+                const value = (kwargs as Record<string, unknown>)[field];
+                if (
+                    value !== undefined &&
+                    value !== null &&
+                    this.#getUniqueValues(
+                        constraint.scope,
+                        field,
+                        batchValues,
+                    ).has(value)
+                ) {
+                    throw new UniqueConstraintError(
+                        `The override of "${field}" collides with an existing unique value (scope: ${constraint.scope}). Overridden values are not regenerated; pass a different value or call resetUnique().`,
+                    );
+                }
+            }
+        }
+    }
+
+    #assignAssociation(
+        result: T,
+        association: Association,
+        value: unknown,
+        frame?: BuildFrame,
+    ): void {
+        const record = result as Record<string, unknown>;
+        if (value === omittedValue) {
+            Reflect.deleteProperty(record, association.name);
+            return;
+        }
+        record[association.name] = value;
+
+        if (association.kind === 'belongsTo') {
+            this.#linkForeignKey(record, association);
+            return;
+        }
+        const inverse = association.factory.associations.find(
+            (candidate) =>
+                candidate.kind === 'belongsTo' &&
+                candidate.foreignKey === association.inverse,
+        );
+        if (inverse && Array.isArray(value)) {
+            const instance = frame ? getAncestorInstance(frame, false) : result;
+            for (const child of value) {
+                if (isRecord(child)) {
+                    child[inverse.name] = instance;
+                }
+            }
+        }
+    }
+
+    #batch(
+        size: number,
+        batchKwargs: Partial<T> | Partial<T>[] | undefined,
+        depth: number,
+        options?: BuildOptions,
+    ): T[] {
+        this.#detectCycle(currentBuildFrame);
+        if (this.isDepthExceeded(depth)) {
+            return this.#getDepthFallback(depth, size) as T[];
+        }
+        validateBatchSize(size);
+        if (size === 0) {
+            return [];
+        }
+        return this.#runBatch(size, batchKwargs, depth, options);
+    }
+
+    async #batchAsync(
+        size: number,
+        batchKwargs: Partial<T> | Partial<T>[] | undefined,
+        depth: number,
+        options?: BuildOptions,
+    ): Promise<F extends FactoryFunction<T> ? T[] : Partial<T>[]> {
+        const parent = currentBuildFrame;
+        this.#detectCycle(parent);
+        if (this.isDepthExceeded(depth)) {
+            return this.#getDepthFallback(depth, size) as T[];
+        }
+        validateBatchSize(size);
+
+        if (size === 0) {
+            return [];
+        }
+
+        const context = this.createBatchHookContext(options, depth);
+        const kwargsList = await this.runHooksAsync(
+            this.beforeBatchHooks,
+            this.expandBatchKwargs(size, batchKwargs),
+            context,
+        );
+        const batchValues: UniqueValues = new Map();
+        const results = await Promise.all(
+            kwargsList.map((kwargs, i) =>
+                this.#runInFrame(parent, () =>
+                    this.#buildInstanceAsync(
+                        i,
+                        kwargs,
+                        depth,
+                        options,
+                        batchValues,
+                    ),
+                ),
+            ),
+        );
+
+        return this.runHooksAsync(this.afterBatchHooks, results, context);
+    }
+
+    async #buildAssociationsAsync(
+        result: T,
+        kwargs: Partial<T>,
+        frame: BuildFrame,
+    ): Promise<T> {
+        for (const association of this.#getPendingAssociations(
+            result,
+            kwargs,
+        )) {
+            const value = await this.#runInFrame(frame, () =>
+                association.kind === 'belongsTo'
+                    ? association.factory.buildAsync()
+                    : association.factory.batchAsync(
+                          this.#getAssociationSize(association),
+                          this.#getInverseKwargs(result, association),
+                      ),
+            );
+            this.#assignAssociation(result, association, value, frame);
+        }
+        return result;
+    }
+
+    #buildInstance(
         iteration: number,
-        kwargs?: Partial<T>,
-        depth = 0,
-    ): Promise<T> | T {
+        kwargs: Partial<T> | undefined,
+        depth: number,
+        options: BuildOptions | undefined,
+        batchValues?: UniqueValues,
+    ): T {
+        const frame = this.#createBuildFrame(
+            depth,
+            batchValues ? iteration : undefined,
+        );
+        if (this.isDepthExceeded(depth)) {
+            return this.#getDepthFallback(depth) as T;
+        }
+
+        const context = this.createHookContext(
+            options,
+            iteration,
+            kwargs,
+            depth,
+        );
+        const params = this.runHooks(
+            this.beforeBuildHooks,
+            kwargs ?? {},
+            context,
+        );
+        const result = this.#generateUnique(
+            iteration,
+            params,
+            depth,
+            options,
+            frame,
+            batchValues,
+        );
+
+        if (result instanceof Promise) {
+            throw new ConfigurationError(
+                'Async factory function detected. Use buildAsync() method to build instances with async factories.',
+            );
+        }
+
+        return this.#settleFrameInstance(
+            frame,
+            this.runHooks(
+                this.afterBuildHooks,
+                this.buildAssociations(result, params, frame),
+                context,
+            ),
+        );
+    }
+
+    async #buildInstanceAsync(
+        iteration: number,
+        kwargs: Partial<T> | undefined,
+        depth: number,
+        options: BuildOptions | undefined,
+        batchValues?: UniqueValues,
+    ): Promise<T> {
+        const frame = this.#createBuildFrame(
+            depth,
+            batchValues ? iteration : undefined,
+        );
         if (this.isDepthExceeded(depth)) {
-            return null as T;
+            return this.#getDepthFallback(depth) as T;
+        }
+
+        const context = this.createHookContext(
+            options,
+            iteration,
+            kwargs,
+            depth,
+        );
+        const params = await this.runHooksAsync(
+            this.beforeBuildHooks,
+            kwargs ?? {},
+            context,
+        );
+        const result = await this.#generateUniqueAsync(
+            iteration,
+            params,
+            depth,
+            options,
+            frame,
+            batchValues,
+        );
+
+        return this.#settleFrameInstance(
+            frame,
+            await this.runHooksAsync(
+                this.afterBuildHooks,
+                await this.#buildAssociationsAsync(result, params, frame),
+                context,
+            ),
+        );
+    }
+
+    #composeValues<U>(
+        composition: FactoryComposition<U>,
+        factory: Factory<U>,
+        isAsync: boolean,
+    ): Record<string, unknown> {
+        return Object.fromEntries(
+            Object.entries(composition).map(([key, value]) => {
+                if (value instanceof Factory) {
+                    const child = value as Factory<unknown>;
+                    return [
+                        key,
+                        factory.use(() =>
+                            isAsync ? child.buildAsync() : child.build(),
+                        ),
+                    ];
+                }
+                const collection =
+                    value instanceof FactoryCollection
+                        ? (value as FactoryCollection<unknown>)
+                        : isCompositionTuple(value)
+                          ? new FactoryCollection(value[0], value[1])
+                          : undefined;
+                if (!collection) {
+                    return [key, value];
+                }
+                return [
+                    key,
+                    factory.use(() => {
+                        const { size } = collection;
+                        const count =
+                            typeof size === 'number'
+                                ? size
+                                : factory.number.int(size);
+                        return isAsync
+                            ? collection.factory.batchAsync(count)
+                            : collection.factory.batch(count);
+                    }),
+                ];
+            }),
+        );
+    }
+
+    #createBuildFrame(depth: number, index?: number): BuildFrame {
+        const parent = currentBuildFrame;
+        this.#detectCycle(parent);
+        return {
+            depth,
+            factory: this as unknown as Factory<unknown>,
+            index,
+            name: this.getFactoryName(),
+            parent,
+            path: '',
+        };
+    }
+
+    /**
+     * @param part A value that is part of the signature
+     * @param config Fixture configuration
+     * @param pointer JSON pointer of the value within the described inputs
+     * @param ancestors The objects enclosing the value with their pointers, used to describe cycles
+     * @returns The value as JSON-compatible data. Objects that contain themselves, e.g. through
+     * back-references, are described as `{ ref: pointer }` where they recur
+     */
+    #describeSignaturePart(
+        part: unknown,
+        config: Required<FixtureConfiguration>,
+        pointer = '',
+        ancestors = new Map<object, string>(),
+    ): unknown {
+        if (part instanceof Factory) {
+            return { factory: part.describeSignature(config) };
+        }
+        if (part instanceof FactoryCollection) {
+            return {
+                collection: this.#describeSignaturePart(part.factory, config),
+                size: part.size,
+            };
+        }
+        if (typeof part === 'function') {
+            return config.includeSource ? part.toString() : 'function';
+        }
+        if (typeof part === 'bigint' || typeof part === 'symbol') {
+            return part.toString();
+        }
+        if (part instanceof Date) {
+            return part.toISOString();
+        }
+        if (!Array.isArray(part) && !isRecord(part)) {
+            return part;
         }
 
-        const depthLimitedFactory = this.createDepthLimitedProxy(depth, false);
-        const defaults = this.factory(depthLimitedFactory, iteration, kwargs);
+        const ancestor = ancestors.get(part);
+        if (ancestor !== undefined) {
+            return { ref: ancestor };
+        }
+        ancestors.set(part, pointer);
+        const describe = (value: unknown, key: number | string) =>
+            this.#describeSignaturePart(
+                value,
+                config,
+                appendPointer(pointer, key),
+                ancestors,
+            );
+        const description = Array.isArray(part)
+            ? part.map((value, index) => describe(value, index))
+            : Object.fromEntries(
+                  Object.entries(part).map(([key, value]) => [
+                      key,
+                      describe(value, key),
+                  ]),
+              );
+        ancestors.delete(part);
+        return description;
+    }
 
-        if (kwargs) {
-            return merge(
-                this.#parseValue(defaults),
-                this.#parseValue(kwargs),
-            ) as T;
+    #detectCycle(parent: BuildFrame | undefined): void {
+        if (!this.options?.strict) {
+            return;
+        }
+        for (let frame = parent; frame; frame = frame.parent) {
+            if ((frame.factory as unknown) === this) {
+                throw new CircularReferenceError(
+                    `Circular reference detected: ${this.#formatBuildPath(parent!)} -> ${this.getFactoryName()}`,
+                );
+            }
         }
+    }
 
-        return this.#parseValue(defaults) as T;
+    #findUniqueCollisions(
+        result: T,
+        batchValues: UniqueValues,
+        attempt: number,
+    ): { constraint: UniqueConstraint; fields: string[] }[] {
+        if (!isRecord(result)) {
+            return [];
+        }
+        const collisions: { constraint: UniqueConstraint; fields: string[] }[] =
+            [];
+        for (const constraint of this.uniqueConstraints) {
+            const fields = constraint.fields.filter((field) => {
+                const value = result[field];
+                return (
+                    value !== undefined &&
+                    value !== null &&
+                    this.#getUniqueValues(
+                        constraint.scope,
+                        field,
+                        batchValues,
+                    ).has(value)
+                );
+            });
+            if (!fields.length) {
+                continue;
+            }
+            if (attempt >= constraint.maxRetries) {
+                const [field] = fields;
+                const used = this.#getUniqueValues(
+                    constraint.scope,
+                    field,
+                    batchValues,
+                ).size;
+                throw new UniqueConstraintError(
+                    `Unable to generate a unique value for "${field}" (scope: ${constraint.scope}) after ${constraint.maxRetries} retries. The value space may be exhausted: ${used} distinct values are already in use.`,
+                );
+            }
+            collisions.push({ constraint, fields });
+        }
+        return collisions;
+    }
+
+    #formatBuildPath(frame: BuildFrame): string {
+        const segments: string[] = [];
+        for (
+            let current: BuildFrame | undefined = frame;
+            current;
+            current = current.parent
+        ) {
+            const index =
+                current.index === undefined ? '' : `[${current.index}]`;
+            const path = current.path ? `.${current.path}` : '';
+            segments.unshift(
+                `${current.parent ? '' : current.name}${index}${path}`,
+            );
+        }
+        return segments.join('');
+    }
+
+    #generate(
+        iteration: number,
+        kwargs?: Partial<T>,
+        depth = 0,
+        options?: BuildOptions,
+        frame?: BuildFrame,
+    ): Promise<T> | T {
+        const transient = options?.transient ?? {};
+        const depthLimitedFactory = this.createDepthLimitedProxy(
+            depth,
+            false,
+            frame,
+        );
+        return this.#runInFrame(frame, () => {
+            const defaults = this.factory(
+                depthLimitedFactory,
+                iteration,
+                kwargs,
+                transient,
+            );
+            if (defaults instanceof Promise) {
+                return defaults as Promise<T>;
+            }
+            const traitValues = this.resolveTraits(
+                options?.traits,
+                depthLimitedFactory,
+                iteration,
+                kwargs,
+                transient,
+            );
+
+            return this.completeInstance(
+                (kwargs || traitValues.length
+                    ? merge(
+                          this.#parseValue(defaults, frame),
+                          ...traitValues,
+                          this.#parseValue(kwargs, frame),
+                      )
+                    : this.#parseValue(defaults, frame)) as T,
+            );
+        });
     }
 
     async #generateAsync(
         iteration: number,
         kwargs?: Partial<T>,
         depth = 0,
+        options?: BuildOptions,
+        frame?: BuildFrame,
     ): Promise<T> {
-        if (this.isDepthExceeded(depth)) {
-            return null as T;
+        const transient = options?.transient ?? {};
+        const depthLimitedFactory = this.createDepthLimitedProxy(
+            depth,
+            true,
+            frame,
+        );
+        const defaults = await this.#runInFrame(frame, () =>
+            this.factory(depthLimitedFactory, iteration, kwargs, transient),
+        );
+        const traitValues: unknown[] = [];
+        for (const name of options?.traits ?? []) {
+            traitValues.push(
+                await this.#parseValueAsync(
+                    await this.#runInFrame(frame, () =>
+                        this.#getTraitValues(
+                            name,
+                            depthLimitedFactory,
+                            iteration,
+                            kwargs,
+                            transient,
+                        ),
+                    ),
+                    frame,
+                ),
+            );
+        }
+
+        const values =
+            kwargs || traitValues.length
+                ? merge(
+                      await this.#parseValueAsync(defaults, frame),
+                      ...traitValues,
+                      await this.#parseValueAsync(kwargs, frame),
+                  )
+                : await this.#parseValueAsync(defaults, frame);
+        return this.completeInstance(values as T);
+    }
+
+    #generateUnique(
+        iteration: number,
+        kwargs: Partial<T> | undefined,
+        depth: number,
+        options: BuildOptions | undefined,
+        frame: BuildFrame,
+        batchValues: UniqueValues = new Map(),
+    ): Promise<T> | T {
+        const result = this.#generate(iteration, kwargs, depth, options, frame);
+        if (result instanceof Promise) {
+            return result;
         }
+        return this.ensureUnique(
+            result,
+            () => this.#generate(iteration, kwargs, depth, options, frame) as T,
+            batchValues,
+            kwargs,
+        );
+    }
 
-        const depthLimitedFactory = this.createDepthLimitedProxy(depth, true);
-        const defaults = await this.factory(
-            depthLimitedFactory,
+    async #generateUniqueAsync(
+        iteration: number,
+        kwargs: Partial<T> | undefined,
+        depth: number,
+        options: BuildOptions | undefined,
+        frame: BuildFrame,
+        batchValues: UniqueValues = new Map(),
+    ): Promise<T> {
+        let result: T = await this.#generateAsync(
             iteration,
             kwargs,
+            depth,
+            options,
+            frame,
+        );
+        this.#assertUniqueOverrides(kwargs, batchValues);
+        let collisions = this.#findUniqueCollisions(result, batchValues, 0);
+        for (let attempt = 1; collisions.length; attempt++) {
+            result = this.#mergeRegenerated(
+                result,
+                await this.#generateAsync(
+                    iteration,
+                    kwargs,
+                    depth,
+                    options,
+                    frame,
+                ),
+                collisions,
+            );
+            collisions = this.#findUniqueCollisions(
+                result,
+                batchValues,
+                attempt,
+            );
+        }
+        this.#recordUniqueValues(result, batchValues);
+        return result;
+    }
+
+    #getAssociationAdapter(
+        association: Association,
+    ): PersistenceAdapter<unknown> {
+        const adapter = association.factory.defaultAdapter;
+        if (!adapter) {
+            throw new ConfigurationError(
+                `Cannot persist the "${association.name}" association of ${this.getFactoryName()}: ${association.factory.getFactoryName()} has no default adapter. Declare the association with a factory that has one, e.g. \`${association.kind}('${association.name}', ${association.factory.getFactoryName()}.withAdapter(adapter), ...)\`.`,
+            );
+        }
+        return adapter;
+    }
+
+    #getAssociationSize(
+        association: { kind: 'hasMany' } & Association,
+    ): number {
+        return typeof association.count === 'number'
+            ? association.count
+            : this.number.int(association.count);
+    }
+
+    #getDepthFallback(depth: number, size?: number): unknown {
+        const fallback = this.#resolveDepthFallback();
+        if (typeof fallback === 'function') {
+            const factory = this as unknown as Factory<unknown>;
+            return size === undefined
+                ? fallback(factory, depth)
+                : Array.from({ length: size }, () => fallback(factory, depth));
+        }
+        if (fallback === 'empty') {
+            return size === undefined ? {} : [];
+        }
+        if (fallback === 'omit') {
+            if (depth > 0) {
+                return omittedValue;
+            }
+            // A root build has no parent object to leave it out of
+            if (size === undefined) {
+                throw new ConfigurationError(
+                    `The 'omit' depth fallback cannot leave out the root instance of ${this.getFactoryName()} because maxDepth is exceeded at depth ${depth}. Increase maxDepth or use another depthFallback.`,
+                );
+            }
+            return [];
+        }
+        return fallback;
+    }
+
+    #getFactoryVersion(): number {
+        return this.options?.version ?? 1;
+    }
+
+    #getInverseKwargs(
+        result: T,
+        association: { kind: 'hasMany' } & Association,
+    ): Record<string, unknown> {
+        return {
+            [association.inverse]: (result as Record<string, unknown>)[
+                association.primaryKey
+            ],
+        };
+    }
+
+    #getPendingAssociations(result: T, kwargs: Partial<T>): Association[] {
+        if (!isRecord(result)) {
+            return [];
+        }
+
+        const overrides = kwargs as Record<string, unknown>;
+        const pending: Association[] = [];
+        for (const association of this.associations) {
+            if (association.kind === 'hasMany') {
+                if (!(association.name in overrides)) {
+                    pending.push(association);
+                }
+            } else if (association.foreignKey in overrides) {
+                continue;
+            } else if (association.name in overrides) {
+                this.#linkForeignKey(result, association);
+            } else {
+                pending.push(association);
+            }
+        }
+        return pending;
+    }
+
+    #getTraitValues(
+        name: string,
+        factory: Factory<T>,
+        iteration: number,
+        kwargs?: Partial<T>,
+        transient?: TransientParams,
+    ): Partial<FactorySchema<T>> | Promise<Partial<FactorySchema<T>>> {
+        const definition = this.traitDefinitions.get(name);
+        if (!definition) {
+            throw new ConfigurationError(
+                `Unknown trait "${name}". Register it with trait() before activating it.`,
+            );
+        }
+        return typeof definition === 'function'
+            ? definition(factory, iteration, kwargs, transient)
+            : definition;
+    }
+
+    #getUniqueValues(
+        scope: UniqueScope,
+        field: string,
+        batchValues: UniqueValues,
+    ): Set<unknown> {
+        const store =
+            scope === 'global'
+                ? globalUniqueValues
+                : scope === 'factory'
+                  ? this.uniqueValues
+                  : batchValues;
+        let values = store.get(field);
+        if (!values) {
+            values = new Set();
+            store.set(field, values);
+        }
+        return values;
+    }
+
+    /**
+     * @param factory A factory passed to `parent()` or `root()`
+     * @returns Whether this factory is the factory, a copy of it or derived from it
+     */
+    #isBasedOn(factory: ScenarioFactories[string]): boolean {
+        return (
+            this === factory ||
+            (this.copiedFrom !== undefined &&
+                this.copiedFrom.#isBasedOn(factory)) ||
+            this.derivedFrom.some(
+                (part) => part instanceof Factory && part.#isBasedOn(factory),
+            )
         );
+    }
+
+    #linkForeignKey(
+        record: Record<string, unknown>,
+        association: { kind: 'belongsTo' } & Association,
+    ): void {
+        const related = record[association.name];
+        if (isRecord(related)) {
+            record[association.foreignKey] = related[association.primaryKey];
+        }
+    }
+
+    #lockFixture(
+        fullPath: string,
+        config: Required<FixtureConfiguration>,
+    ): () => void {
+        try {
+            return config.store.lock?.(fullPath) ?? (() => undefined);
+        } catch (error) {
+            throw new FixtureError(
+                `Failed to lock fixture ${fullPath}: ${(error as Error).message}`,
+            );
+        }
+    }
 
-        if (kwargs) {
-            return merge(
-                await this.#parseValueAsync(defaults),
-                await this.#parseValueAsync(kwargs),
-            ) as T;
+    #mergeRegenerated(
+        result: T,
+        regenerated: T,
+        collisions: { constraint: UniqueConstraint; fields: string[] }[],
+    ): T {
+        if (
+            collisions.some(
+                ({ constraint }) => constraint.regenerate === 'object',
+            )
+        ) {
+            return regenerated;
         }
+        const merged = { ...result } as Record<string, unknown>;
+        for (const { fields } of collisions) {
+            for (const field of fields) {
+                merged[field] = (regenerated as Record<string, unknown>)[field];
+            }
+        }
+        return merged as T;
+    }
 
-        return (await this.#parseValueAsync(defaults)) as T;
+    /**
+     * Applies the registered migrations from the given version up to the current factory version.
+     *
+     * @param data The data of the fixture
+     * @param fromVersion The factory version the fixture was generated by
+     * @param inputs Arguments of the call, which identify batch fixtures by their size
+     * @returns The migrated data
+     * @throws {FixtureValidationError} If a migration is missing
+     */
+    #migrateFixtureData(
+        data: unknown,
+        fromVersion: number,
+        inputs?: Record<string, unknown>,
+    ): unknown {
+        let migrated = data;
+        for (
+            let version = fromVersion;
+            version < this.#getFactoryVersion();
+            version++
+        ) {
+            const migrate = this.migrations.get(version);
+            if (!migrate) {
+                throw new FixtureValidationError(
+                    `No fixture migration from version ${version} of ${this.getFactoryName()} is registered. ` +
+                        `Register one with migration() or regenerate the fixture.`,
+                );
+            }
+            migrated =
+                inputs && 'size' in inputs && Array.isArray(migrated)
+                    ? migrated.map((instance) => migrate(instance))
+                    : migrate(migrated);
+        }
+        return migrated;
     }
 
-    #parseValue(value: unknown): unknown {
+    #parseValue(value: unknown, frame?: BuildFrame, path = ''): unknown {
         if (value instanceof Ref) {
-            return value.callHandler();
+            return this.#resolveRef(
+                value as Ref<unknown, () => unknown>,
+                frame,
+                path,
+            );
         }
 
         if (isIterator(value)) {
             return (value as Iterator<unknown>).next().value;
         }
 
-        if (isRecord(value)) {
+        if (Array.isArray(value) && value.includes(omittedValue)) {
+            return value.filter((item) => item !== omittedValue);
+        }
+
+        if (isRecord(value) && !ancestorInstances.has(value)) {
             const result: Record<string | symbol, unknown> = {};
 
             for (const [key, val] of Object.entries(
                 value as Record<string, unknown>,
             )) {
-                result[key] = this.#parseValue(val);
+                const parsed = this.#parseValue(
+                    val,
+                    frame,
+                    path ? `${path}.${key}` : key,
+                );
+                if (parsed !== omittedValue) {
+                    result[key] = parsed;
+                }
             }
 
             for (const sym of Object.getOwnPropertySymbols(value)) {
                 result[sym] = this.#parseValue(
                     (value as Record<symbol, unknown>)[sym],
+                    frame,
+                    `${path}[${sym.toString()}]`,
                 );
             }
 
@@ -1171,27 +3470,48 @@ export class Factory<
         return value;
     }
 
-    async #parseValueAsync(value: unknown): Promise<unknown> {
+    async #parseValueAsync(
+        value: unknown,
+        frame?: BuildFrame,
+        path = '',
+    ): Promise<unknown> {
         if (value instanceof Ref) {
-            return value.callHandler();
+            return this.#resolveRef(
+                value as Ref<unknown, () => unknown>,
+                frame,
+                path,
+            );
         }
 
         if (isIterator(value)) {
             return (value as Iterator<unknown>).next().value;
         }
 
-        if (isRecord(value)) {
+        if (Array.isArray(value) && value.includes(omittedValue)) {
+            return value.filter((item) => item !== omittedValue);
+        }
+
+        if (isRecord(value) && !ancestorInstances.has(value)) {
             const result: Record<string | symbol, unknown> = {};
 
             for (const [key, val] of Object.entries(
                 value as Record<string, unknown>,
             )) {
-                result[key] = await this.#parseValueAsync(val);
+                const parsed = await this.#parseValueAsync(
+                    val,
+                    frame,
+                    path ? `${path}.${key}` : key,
+                );
+                if (parsed !== omittedValue) {
+                    result[key] = parsed;
+                }
             }
 
             for (const sym of Object.getOwnPropertySymbols(value)) {
                 result[sym] = await this.#parseValueAsync(
                     (value as Record<symbol, unknown>)[sym],
+                    frame,
+                    `${path}[${sym.toString()}]`,
                 );
             }
 
@@ -1200,4 +3520,625 @@ export class Factory<
 
         return value;
     }
+
+    async #persist(
+        instance: T,
+        adapter: PersistenceAdapter<T>,
+        persisted: Map<object, unknown>,
+    ): Promise<T> {
+        await this.#persistParents(instance, persisted);
+        const created = await adapter.create(instance);
+        if (isRecord(instance)) {
+            persisted.set(instance, created);
+        }
+        await this.#persistChildren(instance, created, persisted);
+        return created;
+    }
+
+    async #persistChildren(
+        instance: T,
+        created: T,
+        persisted: Map<object, unknown>,
+    ): Promise<void> {
+        if (!isRecord(instance)) {
+            return;
+        }
+
+        for (const association of this.associations) {
+            const children = instance[association.name];
+            if (
+                association.kind !== 'hasMany' ||
+                !Array.isArray(children) ||
+                children.length === 0
+            ) {
+                continue;
+            }
+            const adapter = this.#getAssociationAdapter(association);
+
+            if (isRecord(created)) {
+                for (const child of children) {
+                    if (isRecord(child)) {
+                        child[association.inverse] =
+                            created[association.primaryKey];
+                    }
+                }
+            }
+            const createdChildren = await association.factory.#persistMany(
+                children,
+                adapter,
+                persisted,
+            );
+            if (isRecord(created)) {
+                (created as Record<string, unknown>)[association.name] =
+                    createdChildren;
+            }
+        }
+    }
+
+    async #persistMany(
+        instances: T[],
+        adapter: PersistenceAdapter<T>,
+        persisted: Map<object, unknown>,
+    ): Promise<T[]> {
+        for (const instance of instances) {
+            await this.#persistParents(instance, persisted);
+        }
+        const created = await adapter.createMany(instances);
+        for (const [index, instance] of instances.entries()) {
+            if (isRecord(instance)) {
+                persisted.set(instance, created[index]);
+            }
+        }
+        for (const [index, instance] of instances.entries()) {
+            await this.#persistChildren(instance, created[index], persisted);
+        }
+        return created;
+    }
+
+    async #persistParents(
+        instance: T,
+        persisted: Map<object, unknown>,
+    ): Promise<void> {
+        if (!isRecord(instance)) {
+            return;
+        }
+
+        for (const association of this.associations) {
+            const related = instance[association.name];
+            if (association.kind !== 'belongsTo' || !isRecord(related)) {
+                continue;
+            }
+
+            const created = persisted.has(related)
+                ? persisted.get(related)
+                : await association.factory.#persist(
+                      related,
+                      this.#getAssociationAdapter(association),
+                      persisted,
+                  );
+            const record = instance as Record<string, unknown>;
+            record[association.name] = created;
+            this.#linkForeignKey(record, association);
+        }
+    }
+
+    #recordUniqueValues(result: T, batchValues: UniqueValues): void {
+        if (!isRecord(result)) {
+            return;
+        }
+        for (const constraint of this.uniqueConstraints) {
+            for (const field of constraint.fields) {
+                const value = result[field];
+                if (value !== undefined && value !== null) {
+                    this.#getUniqueValues(
+                        constraint.scope,
+                        field,
+                        batchValues,
+                    ).add(value);
+                }
+            }
+        }
+    }
+
+    #resolveDepthFallback(): DepthFallback {
+        if (this.options && 'depthFallback' in this.options) {
+            return this.options.depthFallback;
+        }
+        for (let frame = currentBuildFrame; frame; frame = frame.parent) {
+            const { options } = frame.factory;
+            if (options && 'depthFallback' in options) {
+                return options.depthFallback;
+            }
+        }
+        return null;
+    }
+
+    #resolveRef(
+        ref: Ref<unknown, () => unknown>,
+        frame: BuildFrame | undefined,
+        path: string,
+    ): unknown {
+        if (!frame) {
+            return ref.callHandler();
+        }
+        frame.path = path;
+        return this.#runInFrame(frame, () => ref.callHandler());
+    }
+
+    #runBatch(
+        size: number,
+        batchKwargs: Partial<T> | Partial<T>[] | undefined,
+        depth: number,
+        options?: BuildOptions,
+    ): T[] {
+        const context = this.createBatchHookContext(options, depth);
+        const kwargsList = this.runHooks(
+            this.beforeBatchHooks,
+            this.expandBatchKwargs(size, batchKwargs),
+            context,
+        );
+        const batchValues: UniqueValues = new Map();
+        const results = kwargsList.map((kwargs, i) =>
+            this.#buildInstance(i, kwargs, depth, options, batchValues),
+        );
+
+        return this.runHooks(this.afterBatchHooks, results, context);
+    }
+
+    #runInFrame<V>(frame: BuildFrame | undefined, callback: () => V): V {
+        const previous = currentBuildFrame;
+        currentBuildFrame = frame;
+        try {
+            return callback();
+        } finally {
+            currentBuildFrame = previous;
+        }
+    }
+
+    #settleFrameInstance(frame: BuildFrame, result: T): T {
+        if (!frame.instance || !isRecord(result)) {
+            return result;
+        }
+        Object.setPrototypeOf(
+            frame.instance,
+            Object.getPrototypeOf(result) as null | object,
+        );
+        return Object.assign(frame.instance, result) as T;
+    }
+}
+
+/**
+ * Describes a batch of instances of a factory for a composed array field.
+ * Created with `factory.many(size)`.
+ *
+ * @template T - The type of objects in the collection
+ */
+export class FactoryCollection<T> {
+    readonly factory: Factory<T>;
+    readonly size: CollectionSize;
+
+    constructor(factory: Factory<T>, size: CollectionSize) {
+        this.factory = factory;
+        this.size = size;
+    }
+}
+
+/**
+ * Registers factories by name so that tooling such as seed scripts and scenario files can
+ * look them up by string. Lookups are typed by the names registered so far.
+ *
+ * @template M - The registered factories, keyed by name
+ *
+ * @example
+ * ```typescript
+ * const registry = new FactoryRegistry()
+ *   .register('User', UserFactory)
+ *   .register('Post', PostFactory);
+ *
+ * const user = registry.get('User').build();
+ * ```
+ */
+export class FactoryRegistry<
+    M extends ScenarioFactories = Record<never, never>,
+> {
+    private readonly factories = new Map<string, ScenarioFactories[string]>();
+
+    /**
+     * @param factories Factories to register, keyed by name
+     */
+    constructor(factories?: M) {
+        for (const [name, factory] of Object.entries(factories ?? {})) {
+            this.register(name, factory);
+        }
+    }
+
+    /**
+     * Looks up a registered factory.
+     *
+     * @param name The name the factory was registered with
+     * @returns The factory
+     * @throws {ConfigurationError} If no factory is registered with the name
+     */
+    get<K extends keyof M & string>(name: K): M[K] {
+        const factory = this.factories.get(name);
+        if (!factory) {
+            throw new ConfigurationError(
+                `No factory registered as "${name}". Registered factories: ${this.names().join(', ') || 'none'}.`,
+            );
+        }
+        return factory as M[K];
+    }
+
+    /**
+     * Checks whether a factory is registered with the given name.
+     *
+     * @param name The name to check
+     * @returns True if a factory is registered with the name
+     */
+    has(name: string): name is keyof M & string {
+        return this.factories.has(name);
+    }
+
+    /**
+     * Lists the names of the registered factories in registration order.
+     *
+     * @returns The registered names
+     */
+    names(): (keyof M & string)[] {
+        return [...this.factories.keys()] as (keyof M & string)[];
+    }
+
+    /**
+     * Registers a factory under a name.
+     *
+     * @param name The name to register the factory with, e.g. `'User'`
+     * @param factory The factory
+     * @returns The registry, typed with the new name
+     * @throws {ConfigurationError} If a factory is already registered with the name
+     */
+    register<K extends string, F extends ScenarioFactories[string]>(
+        name: K,
+        factory: F,
+    ): FactoryRegistry<M & Record<K, F>> {
+        if (this.factories.has(name)) {
+            throw new ConfigurationError(
+                `A factory is already registered as "${name}".`,
+            );
+        }
+        this.factories.set(name, factory);
+        return this as unknown as FactoryRegistry<M & Record<K, F>>;
+    }
+
+    /**
+     * Declares a scenario built from the registered factories. See `scenario()`.
+     *
+     * @param spec The entries of the scenario, keyed by registered name
+     * @returns The scenario
+     * @throws {ConfigurationError} If an entry has no factory, picks from an unknown entry or the picks form a cycle
+     */
+    scenario<S extends ScenarioSpec<M>>(spec: S): Scenario<M, S> {
+        return new Scenario(Object.fromEntries(this.factories) as M, spec);
+    }
+}
+
+/**
+ * A declarative dataset built from several factories, e.g. tenants with their users.
+ * Entries are built in dependency order: an entry that `pick()`s instances of another entry
+ * is built after it. Created with `scenario()`.
+ *
+ * @template M - The factories of the scenario, keyed by name
+ * @template S - The spec of the scenario
+ */
+export class Scenario<
+    M extends ScenarioFactories,
+    S extends ScenarioSpec<M> = ScenarioSpec<M>,
+> {
+    readonly factories: M;
+    readonly spec: S;
+
+    constructor(factories: M, spec: S) {
+        for (const key of Object.keys(spec)) {
+            if (!(key in factories)) {
+                throw new ConfigurationError(
+                    `No factory registered for scenario entry "${key}".`,
+                );
+            }
+        }
+        this.factories = factories;
+        this.spec = spec;
+        this.#getBuildOrder();
+    }
+
+    /**
+     * Builds the instances of every entry.
+     *
+     * @returns The built instances, keyed by entry
+     * @throws {ConfigurationError} If an entry picks from an entry without instances
+     */
+    build(): ScenarioResult<M, S> {
+        const result: Record<string, unknown[]> = {};
+        for (const key of this.#getBuildOrder()) {
+            result[key] = this.factories[key].batch(
+                ...this.#getBatchArgs(key, result),
+            ) as unknown[];
+        }
+        return result as ScenarioResult<M, S>;
+    }
+
+    /**
+     * Builds the instances of every entry, supporting async factories and hooks.
+     *
+     * @returns Promise that resolves with the built instances, keyed by entry
+     * @throws {ConfigurationError} If an entry picks from an entry without instances
+     */
+    async buildAsync(): Promise<ScenarioResult<M, S>> {
+        const result: Record<string, unknown[]> = {};
+        for (const key of this.#getBuildOrder()) {
+            result[key] = (await this.factories[key].batchAsync(
+                ...this.#getBatchArgs(key, result),
+            )) as unknown[];
+        }
+        return result as ScenarioResult<M, S>;
+    }
+
+    /**
+     * Builds and persists the instances of every entry in dependency order through the
+     * persistence adapter of each factory. Picks refer to the persisted instances.
+     *
+     * @returns Promise that resolves with the persisted instances, keyed by entry
+     * @throws {ConfigurationError} If a factory has no persistence adapter or an entry picks from an entry without instances
+     */
+    async create(): Promise<ScenarioResult<M, S>> {
+        const result: Record<string, unknown[]> = {};
+        for (const key of this.#getBuildOrder()) {
+            result[key] = (await this.factories[key].createMany(
+                ...this.#getBatchArgs(key, result),
+            )) as unknown[];
+        }
+        return result as ScenarioResult<M, S>;
+    }
+
+    #getBatchArgs(
+        key: string,
+        result: Record<string, unknown[]>,
+    ): [number, Record<string, unknown>[]?] {
+        const entry = this.spec[key] as ScenarioEntry<unknown>;
+        if (typeof entry === 'number') {
+            return [entry];
+        }
+
+        const { count, ...overrides } = entry as {
+            count: number;
+        } & Record<string, unknown>;
+        const factory = this.factories[key] as Factory<unknown>;
+        const kwargs = Array.from({ length: count }, () =>
+            Object.fromEntries(
+                Object.entries(overrides).map(([field, value]) => [
+                    field,
+                    value instanceof ScenarioPick
+                        ? value.pickFrom(factory, key, result)
+                        : value,
+                ]),
+            ),
+        );
+        return [count, kwargs];
+    }
+
+    #getBuildOrder(): string[] {
+        const order: string[] = [];
+        const visiting: string[] = [];
+        const visit = (key: string) => {
+            if (order.includes(key)) {
+                return;
+            }
+            if (visiting.includes(key)) {
+                throw new ConfigurationError(
+                    `Circular scenario dependency: ${[...visiting, key].join(' -> ')}`,
+                );
+            }
+
+            visiting.push(key);
+            for (const dependency of this.#getDependencies(key)) {
+                if (!(dependency in this.spec)) {
+                    throw new ConfigurationError(
+                        `Scenario entry "${key}" picks from "${dependency}", which is not part of the scenario.`,
+                    );
+                }
+                visit(dependency);
+            }
+            visiting.pop();
+            order.push(key);
+        };
+
+        for (const key of Object.keys(this.spec)) {
+            visit(key);
+        }
+        return order;
+    }
+
+    #getDependencies(key: string): string[] {
+        const entry = this.spec[key] as ScenarioEntry<unknown>;
+        if (typeof entry === 'number') {
+            return [];
+        }
+        return Object.values(entry as Record<string, unknown>)
+            .filter((value) => value instanceof ScenarioPick)
+            .map((value) => value.key);
+    }
+}
+
+/**
+ * A reference to an instance of another scenario entry, drawn at random per instance.
+ * Created with `pick()`.
+ */
+export class ScenarioPick {
+    readonly field?: string;
+    readonly key: string;
+
+    constructor(key: string, field?: string) {
+        this.key = key;
+        this.field = field;
+    }
+
+    /**
+     * Draws an instance of the referenced entry.
+     *
+     * @param factory The factory whose randomness is used
+     * @param entry The entry that picks
+     * @param result The instances built so far, keyed by entry
+     * @returns The picked instance, or its field if a field was given
+     * @throws {ConfigurationError} If the referenced entry has no instances
+     */
+    pickFrom(
+        factory: Factory<unknown>,
+        entry: string,
+        result: Record<string, unknown[]>,
+    ): unknown {
+        const candidates = result[this.key];
+        if (candidates.length === 0) {
+            throw new ConfigurationError(
+                `Scenario entry "${entry}" picks from "${this.key}", which has no instances.`,
+            );
+        }
+
+        const instance = factory.helpers.arrayElement(candidates);
+        return this.field === undefined
+            ? instance
+            : (instance as Record<string, unknown>)[this.field];
+    }
+}
+
+/**
+ * Returns which fixtures were created, updated or loaded unchanged since the start of the run or
+ * the last `resetFixtureSummary()`, e.g. to report them after regenerating fixtures in update mode.
+ * The summary is kept in module state and is not shared between workers. Test runners that run or
+ * isolate test files in separate workers, such as Vitest and Jest, keep one summary per test file,
+ * so read it in an `afterAll()` of that file rather than in a global teardown.
+ *
+ * @returns The full paths of the fixtures by status
+ *
+ * @example
+ * ```typescript
+ * afterAll(() => {
+ *   const { created, updated } = getFixtureSummary();
+ *   console.log(`${created.length} fixtures created, ${updated.length} updated`);
+ * });
+ * ```
+ */
+export function getFixtureSummary(): FixtureSummary {
+    const summary: FixtureSummary = { created: [], unchanged: [], updated: [] };
+    for (const [fullPath, status] of fixtureStatuses) {
+        summary[status].push(fullPath);
+    }
+    return summary;
+}
+
+/**
+ * References an instance of another scenario entry, or a field of it, e.g. a tenant or its id.
+ * Each instance of the picking entry draws its own instance.
+ *
+ * @param key The name of the scenario entry to pick from
+ * @param field The field of the picked instance to use instead of the instance
+ * @returns A pick to use as a field override in a scenario spec
+ *
+ * @example
+ * ```typescript
+ * scenario(
+ *   { tenants: TenantFactory, users: UserFactory },
+ *   { tenants: 2, users: { count: 10, tenantId: pick('tenants', 'id') } },
+ * );
+ * ```
+ */
+export function pick(key: string, field?: string): ScenarioPick {
+    return new ScenarioPick(key, field);
+}
+
+/**
+ * Clears the fixtures recorded for `getFixtureSummary()`.
+ */
+export function resetFixtureSummary(): void {
+    fixtureStatuses.clear();
+}
+
+/**
+ * Declares a dataset built from several factories. The spec maps the name of each factory to
+ * the number of instances to build, optionally with field overrides that `pick()` instances of
+ * other entries. `build()`, `buildAsync()` and `create()` return the instances keyed by entry.
+ *
+ * @param factories The factories of the scenario, keyed by the name the spec refers to them by
+ * @param spec The entries of the scenario
+ * @returns The scenario
+ * @throws {ConfigurationError} If an entry has no factory, picks from an unknown entry or the picks form a cycle
+ *
+ * @example
+ * ```typescript
+ * const world = scenario(
+ *   { tenants: TenantFactory, users: UserFactory },
+ *   { tenants: 2, users: { count: 10, tenant: pick('tenants') } },
+ * );
+ *
+ * const { tenants, users } = world.build();
+ * const persisted = await world.create();
+ * ```
+ */
+export function scenario<
+    M extends ScenarioFactories,
+    S extends ScenarioSpec<M>,
+>(factories: M, spec: S): Scenario<M, S> {
+    return new Scenario(factories, spec);
+}
+
+/**
+ * Returns the instance under construction of the closest or outermost matching frame.
+ *
+ * @param frame The frame of the parent build, if any
+ * @param outermost Whether to walk up to the root of the object graph
+ * @param matches Selects the frames to consider, by default all of them
+ * @returns The instance that will hold the built values, or undefined if no frame matches
+ */
+function getAncestorInstance(
+    frame: BuildFrame | undefined,
+    outermost: boolean,
+    matches: (frame: BuildFrame) => boolean = () => true,
+): object | undefined {
+    let ancestor: BuildFrame | undefined;
+    for (let current = frame; current; current = current.parent) {
+        if (matches(current)) {
+            ancestor = current;
+            if (!outermost) {
+                break;
+            }
+        }
+    }
+    if (!ancestor) {
+        return undefined;
+    }
+    if (!ancestor.instance) {
+        ancestor.instance = {};
+        ancestorInstances.add(ancestor.instance);
+    }
+    return ancestor.instance;
+}
+
+/**
+ * @param source The source code of a factory function or hooks
+ * @returns SHA-256 hash of the source, stored in fixtures instead of the source itself
+ */
+function hashSource(source: string): string {
+    const hash = createSignatureHash();
+    hash.update(source);
+    return hash.digest('hex');
+}
+
+/**
+ * Checks the environment variable that enables fixture update mode.
+ *
+ * @returns True if the variable is set to a value other than '', '0' or 'false'
+ */
+function isFixtureUpdateEnabled(): boolean {
+    const value =
+        typeof process === 'undefined'
+            ? undefined
+            : process.env[FIXTURE_UPDATE_ENV];
+    return !!value && value !== '0' && value.toLowerCase() !== 'false';
 }
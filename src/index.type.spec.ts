@@ -1,7 +1,15 @@
 /* eslint-disable vitest/expect-expect */
 
 import { expectTypeOf } from 'expect-type';
-import { Factory, FactoryFunction, FactorySchema } from './index';
+import {
+    BuildOptions,
+    Factory,
+    FactoryFunction,
+    FactoryOptions,
+    FactorySchema,
+    pick,
+    scenario,
+} from './index';
 
 interface Post {
     author: User;
@@ -150,6 +158,27 @@ describe('Factory Type Tests', () => {
         const post = composedFactory.build();
         expectTypeOf(post).toEqualTypeOf<Post>();
         expectTypeOf(post.author).toEqualTypeOf<User>();
+
+        interface Tag {
+            label: string;
+        }
+
+        const tagFactory = new Factory<Tag>((faker) => ({
+            label: faker.lorem.word(),
+        }));
+        const taggedFactory = postFactory.compose<{ labels: Tag[] } & Post>({
+            labels: tagFactory.many({ max: 5, min: 1 }),
+        });
+        expectTypeOf(taggedFactory.build().labels).toEqualTypeOf<Tag[]>();
+        postFactory.compose<{ labels: Tag[] } & Post>({
+            labels: [tagFactory, 3],
+        });
+        postFactory.compose<{ labels: Tag[] } & Post>({
+            // @ts-expect-error - collection of the wrong type
+            labels: [userFactory, 3],
+        });
+        // @ts-expect-error - collections are only allowed for array fields
+        postFactory.compose({ author: userFactory.many(2) });
     });
 
     it('should type iterate method correctly', () => {
@@ -369,4 +398,183 @@ describe('Factory Type Tests', () => {
         });
         expectTypeOf(customPartialUser).toEqualTypeOf<Partial<User>>();
     });
+
+    it('should type trait names', () => {
+        const userFactory = new Factory<User>((faker) => ({
+            age: faker.number.int({ max: 80, min: 18 }),
+            createdAt: faker.date.past(),
+            email: faker.internet.email(),
+            id: faker.string.uuid(),
+            isActive: faker.datatype.boolean(),
+            name: faker.person.fullName(),
+        }))
+            .trait('inactive', { isActive: false })
+            .trait('senior', (faker) => ({
+                age: faker.number.int({ max: 90, min: 65 }),
+            }));
+
+        expectTypeOf(
+            userFactory.build(undefined, { traits: ['inactive', 'senior'] }),
+        ).toEqualTypeOf<User>();
+        expectTypeOf(userFactory.batch)
+            .parameter(2)
+            .toEqualTypeOf<BuildOptions<'inactive' | 'senior'> | undefined>();
+
+        expect(() =>
+            // @ts-expect-error - unknown trait name
+            userFactory.build(undefined, { traits: ['inactiv'] }),
+        ).toThrow();
+
+        const extended = userFactory.extend<{ role: string } & User>(
+            (faker) => ({
+                age: faker.number.int(),
+                createdAt: faker.date.past(),
+                email: faker.internet.email(),
+                id: faker.string.uuid(),
+                isActive: true,
+                name: faker.person.fullName(),
+                role: 'member',
+            }),
+        );
+        expect(() =>
+            // @ts-expect-error - unknown trait name on derived factory
+            extended.build(undefined, { traits: ['admin'] }),
+        ).toThrow();
+        expectTypeOf(
+            extended.build(undefined, { traits: ['senior'] }).role,
+        ).toBeString();
+    });
+
+    it('should type transient params separately from the built type', () => {
+        interface PostTransient {
+            authorName: string;
+            tagCount: number;
+        }
+
+        const postFactory = new Factory<
+            Post,
+            FactoryOptions,
+            FactoryFunction<Post, PostTransient>
+        >((faker, _iteration, _kwargs, transient) => {
+            expectTypeOf(transient).toEqualTypeOf<
+                Partial<PostTransient> | undefined
+            >();
+            return {
+                author: {
+                    age: 30,
+                    createdAt: faker.date.past(),
+                    email: faker.internet.email(),
+                    id: faker.string.uuid(),
+                    isActive: true,
+                    name: transient?.authorName ?? faker.person.fullName(),
+                },
+                content: faker.lorem.paragraph(),
+                id: faker.string.uuid(),
+                tags: faker.helpers.multiple(() => faker.lorem.word(), {
+                    count: transient?.tagCount ?? 1,
+                }),
+                title: faker.lorem.sentence(),
+                views: faker.number.int(),
+            };
+        }).afterBuild((post, context) => {
+            expectTypeOf(context.transient).toEqualTypeOf<
+                Partial<PostTransient>
+            >();
+            return post;
+        });
+
+        const post = postFactory.build(undefined, {
+            transient: { tagCount: 2 },
+        });
+        expectTypeOf(post).toEqualTypeOf<Post>();
+        expectTypeOf(post).not.toHaveProperty('tagCount');
+
+        // @ts-expect-error - unknown transient param
+        postFactory.build(undefined, { transient: { commentCount: 1 } });
+    });
+
+    it('should type the hook context', () => {
+        const userFactory = new Factory<User>((faker) => ({
+            age: faker.number.int({ max: 80, min: 18 }),
+            createdAt: faker.date.past(),
+            email: faker.internet.email(),
+            id: faker.string.uuid(),
+            isActive: faker.datatype.boolean(),
+            name: faker.person.fullName(),
+        }))
+            .beforeBuild((params) => params)
+            .afterBuild((user, context) => {
+                expectTypeOf(context.iteration).toBeNumber();
+                expectTypeOf(context.depth).toBeNumber();
+                expectTypeOf(context.kwargs).toEqualTypeOf<Partial<User>>();
+                expectTypeOf(context.factory).toEqualTypeOf<Factory<User>>();
+                return user;
+            })
+            .afterBatch((users, context) => {
+                expectTypeOf(context).not.toHaveProperty('iteration');
+                return users;
+            });
+
+        expectTypeOf(userFactory.build()).toEqualTypeOf<User>();
+    });
+
+    it('should keep the factory type through immutable builders', () => {
+        const userFactory = new Factory<User>((faker) => ({
+            age: faker.number.int({ max: 80, min: 18 }),
+            createdAt: faker.date.past(),
+            email: faker.internet.email(),
+            id: faker.string.uuid(),
+            isActive: faker.datatype.boolean(),
+            name: faker.person.fullName(),
+        })).trait('inactive', { isActive: false });
+
+        const copy = userFactory
+            .clone()
+            .withOptions({ maxDepth: 2 })
+            .withHooks({ afterBuild: (user) => user });
+
+        expectTypeOf(copy).toEqualTypeOf(userFactory);
+        expectTypeOf(
+            copy.build(undefined, { traits: ['inactive'] }),
+        ).toEqualTypeOf<User>();
+        expect(() =>
+            // @ts-expect-error - unknown trait name on the copy
+            copy.build(undefined, { traits: ['unknown'] }),
+        ).toThrow();
+    });
+
+    it('should type the instances built by a scenario', () => {
+        const userFactory = new Factory<User>((faker) => ({
+            age: faker.number.int({ max: 80, min: 18 }),
+            createdAt: faker.date.past(),
+            email: faker.internet.email(),
+            id: faker.string.uuid(),
+            isActive: faker.datatype.boolean(),
+            name: faker.person.fullName(),
+        })).trait('inactive', { isActive: false });
+        const postFactory = new Factory<Post>((faker) => ({
+            author: faker.use(() => userFactory.build()),
+            content: faker.lorem.paragraph(),
+            id: faker.string.uuid(),
+            tags: [],
+            title: faker.lorem.sentence(),
+            views: faker.number.int(),
+        }));
+        const factories = { posts: postFactory, users: userFactory };
+
+        const world = scenario(factories, {
+            posts: { author: pick('users'), count: 2, views: 0 },
+            users: 1,
+        }).build();
+
+        expectTypeOf(world.users).toEqualTypeOf<User[]>();
+        expectTypeOf(world.posts).toEqualTypeOf<Post[]>();
+        expectTypeOf(scenario(factories, { users: 1 }).build()).toEqualTypeOf<{
+            users: User[];
+        }>();
+        expect(() =>
+            // @ts-expect-error - views must be a number
+            scenario(factories, { posts: { count: 1, views: 'many' } }),
+        ).not.toThrow();
+    });
 });
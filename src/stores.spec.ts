@@ -0,0 +1,274 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { FixtureError } from './errors';
+import {
+    FileSystemFixtureStore,
+    IndexedDBFixtureStore,
+    LocalStorageFixtureStore,
+    MemoryFixtureStore,
+} from './stores';
+
+class FakeIndexedDB {
+    readonly databases = new Map<string, Map<string, string>>();
+    readonly failingKeys = new Set<string>();
+
+    open(name: string): FakeRequest<unknown> {
+        const request = new FakeRequest<unknown>();
+        const isNew = !this.databases.has(name);
+        const entries = this.databases.get(name) ?? new Map<string, string>();
+        this.databases.set(name, entries);
+        const objectStore = {
+            delete: (key: string) =>
+                new FakeRequest().settle(entries.delete(key)),
+            getAll: () => new FakeRequest().settle([...entries.values()]),
+            getAllKeys: () => new FakeRequest().settle([...entries.keys()]),
+            put: (value: string, key: string) =>
+                this.failingKeys.has(key)
+                    ? new FakeRequest().fail('quota')
+                    : new FakeRequest().settle(entries.set(key, value)),
+        };
+        const database = {
+            createObjectStore: () => objectStore,
+            name,
+            transaction: () => ({ objectStore: () => objectStore }),
+        };
+        setTimeout(() => {
+            if (isNew) {
+                request.result = database;
+                request.dispatchEvent(new Event('upgradeneeded'));
+            }
+            request.settle(database);
+        });
+        return request;
+    }
+}
+
+class FakeRequest<R> extends EventTarget {
+    error: { message: string } | null = null;
+    result!: R;
+
+    fail(message: string): this {
+        this.error = { message };
+        return this.settle(this.result, 'error');
+    }
+
+    settle(result: R, type = 'success'): this {
+        setTimeout(() => {
+            this.result = result;
+            this.dispatchEvent(new Event(type));
+        });
+        return this;
+    }
+}
+
+class FakeStorage {
+    get length(): number {
+        return this.items.size;
+    }
+
+    private readonly items = new Map<string, string>();
+
+    getItem(key: string): null | string {
+        return this.items.get(key) ?? null;
+    }
+
+    key(index: number): null | string {
+        return [...this.items.keys()][index] ?? null;
+    }
+
+    removeItem(key: string): void {
+        this.items.delete(key);
+    }
+
+    setItem(key: string, value: string): void {
+        this.items.set(key, value);
+    }
+}
+
+describe('Fixture stores', () => {
+    describe('MemoryFixtureStore', () => {
+        it('reads, writes, lists and deletes fixtures', () => {
+            const store = new MemoryFixtureStore();
+            expect(store.read('/a/user.json')).toBeNull();
+
+            store.write('/a/user.json', '{"a":1}');
+            store.write('/a/post.json', '{"b":2}');
+            store.write('/b/user.json', '{"c":3}');
+
+            expect(store.read('/a/user.json')).toBe('{"a":1}');
+            expect(store.list('/a/')).toEqual(['/a/post.json', '/a/user.json']);
+            expect(store.list()).toHaveLength(3);
+
+            store.delete('/a/user.json');
+            store.delete('/a/missing.json');
+            expect(store.read('/a/user.json')).toBeNull();
+            expect(store.list('/a/')).toEqual(['/a/post.json']);
+        });
+    });
+
+    describe('FileSystemFixtureStore', () => {
+        let tempDir: string;
+
+        beforeEach(() => {
+            tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'store-test-'));
+        });
+
+        afterEach(() => {
+            fs.rmSync(tempDir, { force: true, recursive: true });
+        });
+
+        it('stores fixtures as files and creates missing directories', () => {
+            const store = new FileSystemFixtureStore();
+            const key = path.join(tempDir, 'nested', '__fixtures__', 'a.json');
+            expect(store.read(key)).toBeNull();
+
+            store.write(key, '{"a":1}');
+
+            expect(fs.readFileSync(key, 'utf8')).toBe('{"a":1}');
+            expect(store.read(key)).toBe('{"a":1}');
+
+            store.delete(key);
+            expect(fs.existsSync(key)).toBe(false);
+        });
+
+        it('lists json files recursively by directory or prefix', () => {
+            const store = new FileSystemFixtureStore();
+            const users = path.join(tempDir, 'users.json');
+            const usersAdmin = path.join(tempDir, 'users-admin.json');
+            const nested = path.join(tempDir, 'posts', 'post.json');
+            store.write(users, '[]');
+            store.write(usersAdmin, '[]');
+            store.write(nested, '{}');
+            fs.writeFileSync(path.join(tempDir, 'notes.txt'), '');
+
+            expect(store.list(tempDir)).toEqual([nested, usersAdmin, users]);
+            expect(store.list(path.join(tempDir, 'users'))).toEqual([
+                usersAdmin,
+                users,
+            ]);
+            expect(store.list(path.join(tempDir, 'missing', 'x'))).toEqual([]);
+        });
+
+        it('lists the base path without a prefix and skips node_modules and .git', () => {
+            const users = path.join(tempDir, 'users.json');
+            const store = new FileSystemFixtureStore({ basePath: tempDir });
+            store.write(users, '[]');
+            store.write(
+                path.join(tempDir, 'node_modules', 'pkg', 'a.json'),
+                '{}',
+            );
+            store.write(path.join(tempDir, '.git', 'b.json'), '{}');
+
+            expect(store.list()).toEqual([users]);
+            expect(() => new FileSystemFixtureStore().list()).toThrow(
+                FixtureError,
+            );
+        });
+
+        it('replaces fixtures atomically without leaving temporary files', () => {
+            const store = new FileSystemFixtureStore();
+            const key = path.join(tempDir, 'a.json');
+            store.write(key, '{"a":1}');
+            store.write(key, '{"a":2}');
+
+            expect(store.read(key)).toBe('{"a":2}');
+            expect(fs.readdirSync(tempDir)).toEqual(['a.json']);
+        });
+
+        it('holds a reentrant lock file until released', () => {
+            const store = new FileSystemFixtureStore();
+            const key = path.join(tempDir, '__fixtures__', 'a.json');
+
+            const release = store.lock(key);
+            expect(fs.readFileSync(`${key}.lock`, 'utf8')).toBe(
+                String(process.pid),
+            );
+            const releaseNested = store.lock(key);
+            releaseNested();
+            expect(fs.existsSync(`${key}.lock`)).toBe(true);
+
+            release();
+            expect(fs.existsSync(`${key}.lock`)).toBe(false);
+        });
+
+        it('takes over locks of exited processes and expired locks', () => {
+            const key = path.join(tempDir, 'a.json');
+            fs.writeFileSync(`${key}.lock`, '2147483646');
+            new FileSystemFixtureStore().lock(key)();
+
+            fs.writeFileSync(`${key}.lock`, String(process.ppid));
+            const expired = new Date(Date.now() - 60_000);
+            fs.utimesSync(`${key}.lock`, expired, expired);
+            new FileSystemFixtureStore({ lockTimeout: 1000 }).lock(key)();
+
+            expect(fs.existsSync(`${key}.lock`)).toBe(false);
+        });
+    });
+
+    describe('LocalStorageFixtureStore', () => {
+        it('stores fixtures under a namespace', () => {
+            const storage = new FakeStorage();
+            storage.setItem('unrelated', 'value');
+            const store = new LocalStorageFixtureStore(
+                storage as unknown as Storage,
+            );
+
+            store.write('/a/user.json', '{"a":1}');
+            store.write('/b/user.json', '{"b":2}');
+
+            expect(storage.getItem('interface-forge:/a/user.json')).toBe(
+                '{"a":1}',
+            );
+            expect(store.read('/a/user.json')).toBe('{"a":1}');
+            expect(store.read('unrelated')).toBeNull();
+            expect(store.list()).toEqual(['/a/user.json', '/b/user.json']);
+            expect(store.list('/b/')).toEqual(['/b/user.json']);
+
+            store.delete('/a/user.json');
+            expect(store.read('/a/user.json')).toBeNull();
+        });
+    });
+
+    describe('IndexedDBFixtureStore', () => {
+        it('persists writes and loads them when opened again', async () => {
+            const indexedDB = new FakeIndexedDB();
+            const factory = indexedDB as unknown as IDBFactory;
+            const store = await IndexedDBFixtureStore.open('fixtures', factory);
+
+            store.write('/a/user.json', '{"a":1}');
+            store.write('/a/post.json', '{"b":2}');
+            store.delete('/a/post.json');
+            expect(store.read('/a/user.json')).toBe('{"a":1}');
+            await store.flush();
+
+            const reopened = await IndexedDBFixtureStore.open(
+                'fixtures',
+                factory,
+            );
+            expect(reopened.list()).toEqual(['/a/user.json']);
+            expect(reopened.read('/a/user.json')).toBe('{"a":1}');
+        });
+
+        it('keeps persisting after a failed write and reports it on flush', async () => {
+            const indexedDB = new FakeIndexedDB();
+            indexedDB.failingKeys.add('/a/large.json');
+            const factory = indexedDB as unknown as IDBFactory;
+            const store = await IndexedDBFixtureStore.open('fixtures', factory);
+
+            store.write('/a/large.json', '{"a":1}');
+            store.write('/a/user.json', '{"b":2}');
+            store.write('/a/post.json', '{"c":3}');
+            store.delete('/a/post.json');
+
+            await expect(store.flush()).rejects.toThrow(
+                'IndexedDB fixture store "fixtures" failed: quota',
+            );
+            await expect(store.flush()).resolves.toBeUndefined();
+            expect([...indexedDB.databases.get('fixtures')!.keys()]).toEqual([
+                '/a/user.json',
+            ]);
+        });
+    });
+});
@@ -0,0 +1,434 @@
+// Node.js modules - only available in Node.js environment
+let fs: typeof import('node:fs') | undefined;
+let path: typeof import('node:path') | undefined;
+
+// Conditionally import Node.js modules for the file system store
+/* eslint-disable @typescript-eslint/no-unnecessary-condition, @typescript-eslint/no-require-imports, @typescript-eslint/no-unsafe-assignment */
+if (typeof process !== 'undefined' && process.versions?.node) {
+    try {
+        fs = require('node:fs');
+        path = require('node:path');
+    } catch {
+        // Ignore import errors in environments where Node.js modules aren't available
+    }
+}
+/* eslint-enable @typescript-eslint/no-unnecessary-condition, @typescript-eslint/no-require-imports, @typescript-eslint/no-unsafe-assignment */
+import { DEFAULT_FIXTURE_LOCK_TIMEOUT } from './constants';
+import { FixtureError } from './errors';
+
+const LOCK_RETRY_INTERVAL = 10;
+
+/**
+ * Directories that never contain fixtures and are not walked by `FileSystemFixtureStore.list()`.
+ */
+const IGNORED_DIRECTORIES = new Set(['.git', 'node_modules']);
+
+/**
+ * Lock files held by this process.
+ */
+const heldLocks = new Set<string>();
+
+const OBJECT_STORE_NAME = 'fixtures';
+
+/**
+ * Storage backend for fixture files. Keys are the resolved fixture paths, e.g.
+ * `/project/__fixtures__/user.json`, and contents are the serialized fixture files.
+ * Methods are synchronous because fixtures are read and written during synchronous builds.
+ */
+export interface FixtureStore {
+    /**
+     * Removes a fixture. Deleting a missing fixture does nothing.
+     */
+    delete(key: string): void;
+    /**
+     * Lists the keys of the stored fixtures that start with the prefix, e.g. a fixture directory.
+     */
+    list(prefix?: string): string[];
+    /**
+     * Acquires an exclusive lock on a fixture across processes, e.g. parallel test workers,
+     * blocking until it is available. Factories hold the lock while generating a missing fixture
+     * and check for the fixture again once acquired, so that only the first writer generates it.
+     * Stores that are not shared between processes do not need to implement it.
+     *
+     * @returns A function that releases the lock
+     */
+    lock?(key: string): () => void;
+    /**
+     * Returns the content of a fixture, or null if it does not exist.
+     */
+    read(key: string): null | string;
+    /**
+     * Stores the content of a fixture, replacing any previous content.
+     */
+    write(key: string, content: string): void;
+}
+
+/**
+ * Stores fixtures as files on disk. This is the default store in Node.js.
+ * Files are replaced atomically, and `lock()` uses lock files next to the fixtures, so
+ * parallel test workers can share the fixtures.
+ */
+export class FileSystemFixtureStore implements FixtureStore {
+    private readonly basePath: string | undefined;
+    private readonly lockTimeout: number;
+
+    /**
+     * @param options Store options
+     * @param options.basePath Directory listed by `list()` when no prefix is given, e.g. the `basePath` of the fixture configuration
+     * @param options.lockTimeout Milliseconds after which a lock is considered abandoned, e.g. by a crashed worker. Defaults to 30 seconds
+     */
+    constructor({
+        basePath,
+        lockTimeout = DEFAULT_FIXTURE_LOCK_TIMEOUT,
+    }: { basePath?: string; lockTimeout?: number } = {}) {
+        this.basePath = basePath;
+        this.lockTimeout = lockTimeout;
+    }
+
+    delete(key: string): void {
+        getFileSystem().rmSync(key, { force: true });
+    }
+
+    /**
+     * Lists fixture files recursively, skipping `node_modules` and `.git` directories.
+     *
+     * @param prefix A directory to list recursively, or a path prefix within a directory. Defaults to the `basePath` option
+     * @returns The paths of the `.json` files that start with the prefix
+     * @throws {FixtureError} If neither a prefix nor a `basePath` option is given
+     */
+    list(prefix = this.basePath): string[] {
+        if (prefix === undefined) {
+            throw new FixtureError(
+                'FileSystemFixtureStore.list() requires a prefix unless the store is created with a basePath.',
+            );
+        }
+        const fileSystem = getFileSystem();
+        const root =
+            fileSystem.existsSync(prefix) &&
+            fileSystem.statSync(prefix).isDirectory()
+                ? prefix
+                : path!.dirname(prefix);
+        if (!fileSystem.existsSync(root)) {
+            return [];
+        }
+
+        const files: string[] = [];
+        const visit = (dir: string) => {
+            for (const entry of fileSystem.readdirSync(dir, {
+                withFileTypes: true,
+            })) {
+                const entryPath = path!.join(dir, entry.name);
+                if (entry.isDirectory()) {
+                    if (!IGNORED_DIRECTORIES.has(entry.name)) {
+                        visit(entryPath);
+                    }
+                } else if (
+                    entry.name.endsWith('.json') &&
+                    entryPath.startsWith(prefix)
+                ) {
+                    files.push(entryPath);
+                }
+            }
+        };
+        visit(root);
+        return files.sort();
+    }
+
+    /**
+     * Creates `<key>.lock` exclusively, waiting while another process holds it. Locks held by
+     * this process are reentrant, and locks of processes that exited or that are older than
+     * the lock timeout are taken over.
+     *
+     * @param key The fixture path
+     * @returns A function that removes the lock file
+     */
+    lock(key: string): () => void {
+        const fileSystem = getFileSystem();
+        const lockPath = `${key}.lock`;
+        if (heldLocks.has(lockPath)) {
+            return () => undefined;
+        }
+        fileSystem.mkdirSync(path!.dirname(key), { recursive: true });
+
+        // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+        while (true) {
+            try {
+                fileSystem.writeFileSync(lockPath, String(process.pid), {
+                    flag: 'wx',
+                });
+                heldLocks.add(lockPath);
+                return () => {
+                    heldLocks.delete(lockPath);
+                    fileSystem.rmSync(lockPath, { force: true });
+                };
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+                    throw error;
+                }
+            }
+            if (this.isAbandoned(lockPath)) {
+                fileSystem.rmSync(lockPath, { force: true });
+            } else {
+                sleep(LOCK_RETRY_INTERVAL);
+            }
+        }
+    }
+
+    read(key: string): null | string {
+        const fileSystem = getFileSystem();
+        return fileSystem.existsSync(key)
+            ? fileSystem.readFileSync(key, 'utf8')
+            : null;
+    }
+
+    /**
+     * Writes the content to a temporary file and renames it to the fixture path, so that
+     * readers never see a partially written fixture.
+     *
+     * @param key The fixture path
+     * @param content The serialized fixture
+     */
+    write(key: string, content: string): void {
+        const fileSystem = getFileSystem();
+        fileSystem.mkdirSync(path!.dirname(key), { recursive: true });
+        const tempPath = `${key}.${process.pid}.${Date.now()}.tmp`;
+        try {
+            fileSystem.writeFileSync(tempPath, content);
+            fileSystem.renameSync(tempPath, key);
+        } catch (error) {
+            fileSystem.rmSync(tempPath, { force: true });
+            throw error;
+        }
+    }
+
+    private isAbandoned(lockPath: string): boolean {
+        const fileSystem = getFileSystem();
+        try {
+            const { mtimeMs } = fileSystem.statSync(lockPath);
+            if (Date.now() - mtimeMs > this.lockTimeout) {
+                return true;
+            }
+            const pid = Number(fileSystem.readFileSync(lockPath, 'utf8'));
+            if (!pid || pid === process.pid) {
+                return false;
+            }
+            process.kill(pid, 0);
+            return false;
+        } catch (error) {
+            // ESRCH: the holding process exited. A lock released in the meantime is retried
+            return (error as NodeJS.ErrnoException).code === 'ESRCH';
+        }
+    }
+}
+
+/**
+ * Keeps fixtures in memory, e.g. to share generated data between the tests of one run
+ * without touching the disk.
+ */
+export class MemoryFixtureStore implements FixtureStore {
+    protected readonly entries = new Map<string, string>();
+
+    delete(key: string): void {
+        this.entries.delete(key);
+    }
+
+    list(prefix = ''): string[] {
+        return [...this.entries.keys()]
+            .filter((key) => key.startsWith(prefix))
+            .sort();
+    }
+
+    read(key: string): null | string {
+        return this.entries.get(key) ?? null;
+    }
+
+    write(key: string, content: string): void {
+        this.entries.set(key, content);
+    }
+}
+
+/**
+ * Keeps fixtures in IndexedDB for browser-based tests. The fixtures are loaded into memory by
+ * `open()` so that builds can read them synchronously, and writes are persisted in the
+ * background. Await `flush()` to wait for pending writes.
+ */
+export class IndexedDBFixtureStore extends MemoryFixtureStore {
+    private readonly database: IDBDatabase;
+    private error: FixtureError | undefined;
+    private pending: Promise<void> = Promise.resolve();
+
+    private constructor(
+        database: IDBDatabase,
+        entries: Iterable<[string, string]>,
+    ) {
+        super();
+        this.database = database;
+        for (const [key, content] of entries) {
+            this.entries.set(key, content);
+        }
+    }
+
+    /**
+     * Opens the database and loads the stored fixtures.
+     *
+     * @param name The name of the IndexedDB database
+     * @param factory The IndexedDB implementation, defaults to the global `indexedDB`
+     * @returns Promise that resolves with the store
+     * @throws {FixtureError} If the database cannot be opened
+     */
+    static async open(
+        name = 'interface-forge-fixtures',
+        factory: IDBFactory = globalThis.indexedDB,
+    ): Promise<IndexedDBFixtureStore> {
+        const request = factory.open(name, 1);
+        request.addEventListener('upgradeneeded', () => {
+            request.result.createObjectStore(OBJECT_STORE_NAME);
+        });
+        const database = await toPromise(request, name);
+
+        const objectStore = database
+            .transaction(OBJECT_STORE_NAME, 'readonly')
+            .objectStore(OBJECT_STORE_NAME);
+        const [keys, contents] = await Promise.all([
+            toPromise(objectStore.getAllKeys(), name),
+            toPromise(objectStore.getAll() as IDBRequest<string[]>, name),
+        ]);
+        return new IndexedDBFixtureStore(
+            database,
+            keys.map((key, index) => [key as string, contents[index]]),
+        );
+    }
+
+    delete(key: string): void {
+        super.delete(key);
+        this.persist((objectStore) => objectStore.delete(key));
+    }
+
+    /**
+     * @returns Promise that resolves when all writes and deletions have been persisted
+     * @throws {FixtureError} The first write or deletion that failed since the last flush. Later changes are still persisted
+     */
+    async flush(): Promise<void> {
+        await this.pending;
+        const { error } = this;
+        this.error = undefined;
+        if (error) {
+            throw error;
+        }
+    }
+
+    write(key: string, content: string): void {
+        super.write(key, content);
+        this.persist((objectStore) => objectStore.put(content, key));
+    }
+
+    private persist(change: (objectStore: IDBObjectStore) => IDBRequest): void {
+        // A failed change must not stop the ones queued after it
+        const previous = this.pending.catch(() => undefined);
+        this.pending = (async () => {
+            await previous;
+            try {
+                const objectStore = this.database
+                    .transaction(OBJECT_STORE_NAME, 'readwrite')
+                    .objectStore(OBJECT_STORE_NAME);
+                await toPromise(change(objectStore), this.database.name);
+            } catch (error) {
+                this.error ??=
+                    error instanceof FixtureError
+                        ? error
+                        : new FixtureError(
+                              `IndexedDB fixture store "${this.database.name}" failed: ${(error as Error).message}`,
+                          );
+            }
+        })();
+    }
+}
+
+/**
+ * Keeps fixtures in Web Storage, e.g. `localStorage`, for browser-based tests.
+ * Storage is limited to a few megabytes, so prefer `IndexedDBFixtureStore` for large fixtures.
+ */
+export class LocalStorageFixtureStore implements FixtureStore {
+    private readonly namespace: string;
+    private readonly storage: Storage;
+
+    /**
+     * @param storage The storage to use, defaults to `localStorage`
+     * @param namespace Prefix of the storage keys, which separates fixtures from other entries
+     */
+    constructor(
+        storage: Storage = globalThis.localStorage,
+        namespace = 'interface-forge:',
+    ) {
+        this.storage = storage;
+        this.namespace = namespace;
+    }
+
+    delete(key: string): void {
+        this.storage.removeItem(this.namespace + key);
+    }
+
+    list(prefix = ''): string[] {
+        const keys: string[] = [];
+        for (let index = 0; index < this.storage.length; index++) {
+            const key = this.storage.key(index);
+            if (key?.startsWith(this.namespace + prefix)) {
+                keys.push(key.slice(this.namespace.length));
+            }
+        }
+        return keys.sort();
+    }
+
+    read(key: string): null | string {
+        return this.storage.getItem(this.namespace + key);
+    }
+
+    write(key: string, content: string): void {
+        this.storage.setItem(this.namespace + key, content);
+    }
+}
+
+/**
+ * @returns The `node:fs` module
+ * @throws {FixtureError} Outside Node.js
+ */
+function getFileSystem(): typeof import('node:fs') {
+    if (!fs || !path) {
+        throw new FixtureError(
+            'File system fixtures are not available in browser environments. Configure a different fixture store.',
+        );
+    }
+    return fs;
+}
+
+/**
+ * Blocks the thread, which lets synchronous builds wait for a lock.
+ *
+ * @param milliseconds The time to wait
+ */
+function sleep(milliseconds: number): void {
+    Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, milliseconds);
+}
+
+/**
+ * Resolves with the result of an IndexedDB request.
+ *
+ * @param request The request
+ * @param name The name of the database, used in error messages
+ * @returns Promise that resolves with the result of the request
+ * @throws {FixtureError} If the request fails
+ */
+async function toPromise<R>(request: IDBRequest<R>, name: string): Promise<R> {
+    return new Promise((resolve, reject) => {
+        request.addEventListener('success', () => {
+            resolve(request.result);
+        });
+        request.addEventListener('error', () => {
+            reject(
+                new FixtureError(
+                    `IndexedDB fixture store "${name}" failed: ${request.error?.message ?? 'unknown error'}`,
+                ),
+            );
+        });
+    });
+}
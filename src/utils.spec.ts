@@ -1,10 +1,22 @@
 import { describe, expect, it } from 'vitest';
+import { createHash } from 'node:crypto';
+import path from 'node:path';
+import { FixtureError } from './errors';
 import {
+    createSignatureHash,
+    decodeFixtureValue,
+    diffSignatureInputs,
+    encodeFixtureValue,
+    FixtureCodec,
+    formatSignatureChange,
+    getCallerFile,
+    getCurrentTestName,
     getProperty,
     hasMethod,
     hasProperty,
     iterableToArray,
     merge,
+    posixPath,
     Ref,
     validateBatchSize,
 } from './utils';
@@ -234,6 +246,247 @@ describe('Utils', () => {
         });
     });
 
+    describe('fixture serialization', () => {
+        const roundTrip = (value: unknown, codecs?: FixtureCodec[]) => {
+            const json = JSON.stringify(encodeFixtureValue(value, codecs));
+            return decodeFixtureValue(JSON.parse(json), codecs);
+        };
+
+        it('round-trips values JSON cannot represent', () => {
+            const value = {
+                count: 10n,
+                createdAt: new Date('2024-01-02T03:04:05.000Z'),
+                invalid: new Date(Number.NaN),
+                limits: [Infinity, -Infinity, Number.NaN],
+                missing: undefined,
+                scores: new Map<string, Set<number>>([['a', new Set([1, 2])]]),
+                tags: new Set(['x', 'y']),
+            };
+
+            const result = roundTrip(value) as typeof value;
+
+            expect(result).toEqual(value);
+            expect(result).toHaveProperty('missing');
+            expect(result.createdAt).toBeInstanceOf(Date);
+            expect(result.scores.get('a')).toBeInstanceOf(Set);
+            expect(typeof result.count).toBe('bigint');
+        });
+
+        it('keeps plain JSON values and objects with a $type key', () => {
+            const value = {
+                list: [1, 'two', null, { $type: 'Date', value: 'literal' }],
+            };
+
+            expect(encodeFixtureValue({ a: 1, b: ['c'] })).toEqual({
+                a: 1,
+                b: ['c'],
+            });
+            expect(roundTrip(value)).toEqual(value);
+        });
+
+        it('encodes custom classes with codecs', () => {
+            class Money {
+                constructor(
+                    readonly amount: number,
+                    readonly currency: string,
+                ) {}
+            }
+            const codec: FixtureCodec<Money, [number, string]> = {
+                decode: ([amount, currency]) => new Money(amount, currency),
+                encode: (money) => [money.amount, money.currency],
+                name: 'Money',
+                test: (value) => value instanceof Money,
+            };
+
+            const result = roundTrip({ price: new Money(5, 'EUR') }, [
+                codec,
+            ]) as { price: Money };
+
+            expect(result.price).toBeInstanceOf(Money);
+            expect(result.price).toEqual(new Money(5, 'EUR'));
+        });
+
+        it('round-trips cyclic and shared references by identity', () => {
+            interface Node {
+                children: Node[];
+                meta: { 'a/b~c': object };
+                parent?: Node;
+                siblings?: Set<Node>;
+            }
+            const shared = { tag: 'x' };
+            const root: Node = { children: [], meta: { 'a/b~c': shared } };
+            const child: Node = {
+                children: [],
+                meta: { 'a/b~c': shared },
+                parent: root,
+            };
+            root.children.push(child);
+            child.siblings = new Set([child]);
+
+            const encoded = encodeFixtureValue(root) as {
+                children: { parent: unknown }[];
+                meta: unknown;
+            };
+            expect(encoded.children[0].parent).toEqual({
+                $type: 'Ref',
+                value: '',
+            });
+            // The child is written first, so the root refers to the object of the child
+            expect(encoded.meta).toEqual({
+                'a/b~c': { $type: 'Ref', value: '/children/0/meta/a~1b~0c' },
+            });
+
+            const result = roundTrip(root) as Node;
+            const [decodedChild] = result.children;
+            expect(decodedChild.parent).toBe(result);
+            expect(decodedChild.siblings?.has(decodedChild)).toBe(true);
+            expect(decodedChild.meta['a/b~c']).toBe(result.meta['a/b~c']);
+            expect(result.meta['a/b~c']).toEqual(shared);
+        });
+
+        it('throws FixtureError for references that cannot be resolved', () => {
+            expect(() =>
+                decodeFixtureValue({ a: { $type: 'Ref', value: '/missing' } }),
+            ).toThrow('Cannot resolve fixture reference "/missing" at "/a".');
+        });
+
+        it('throws FixtureError for unknown types', () => {
+            expect(() =>
+                decodeFixtureValue({ $type: 'Money', value: [5, 'EUR'] }),
+            ).toThrow(FixtureError);
+        });
+    });
+
+    describe('createSignatureHash', () => {
+        it('matches the SHA-256 of node:crypto', () => {
+            for (const message of [
+                '',
+                'abc',
+                'ünïcödé 😀',
+                'x'.repeat(55),
+                'x'.repeat(56),
+                'y'.repeat(1000),
+            ]) {
+                const hash = createSignatureHash();
+                hash.update(message.slice(0, 3));
+                hash.update(message.slice(3));
+                expect(hash.digest('hex')).toBe(
+                    createHash('sha256').update(message).digest('hex'),
+                );
+            }
+        });
+    });
+
+    describe('signature diff', () => {
+        it('lists added, removed and changed inputs by path', () => {
+            const changes = diffSignatureInputs(
+                {
+                    derivedFrom: [{ factory: { name: 'A' } }],
+                    fields: { age: 'number', id: 'string' },
+                    options: { seed: 1 },
+                },
+                {
+                    derivedFrom: [{ factory: { name: 'B' } }, 'extra'],
+                    fields: { email: 'string', id: 'number' },
+                    options: { seed: 1 },
+                },
+            );
+
+            expect(changes).toEqual([
+                {
+                    current: 'B',
+                    kind: 'changed',
+                    path: 'derivedFrom.0.factory.name',
+                    previous: 'A',
+                },
+                { current: 'extra', kind: 'added', path: 'derivedFrom.1' },
+                { kind: 'removed', path: 'fields.age', previous: 'number' },
+                { current: 'string', kind: 'added', path: 'fields.email' },
+                {
+                    current: 'number',
+                    kind: 'changed',
+                    path: 'fields.id',
+                    previous: 'string',
+                },
+            ]);
+            expect(
+                diffSignatureInputs({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] }),
+            ).toEqual([]);
+        });
+
+        it('formats changes as readable lines', () => {
+            expect(
+                formatSignatureChange({
+                    current: 2,
+                    kind: 'changed',
+                    path: 'options.seed',
+                    previous: 1,
+                }),
+            ).toBe('options.seed: 1 → 2');
+            expect(
+                formatSignatureChange({
+                    current: 'string',
+                    kind: 'added',
+                    path: 'fields.email',
+                }),
+            ).toBe('fields.email: added ("string")');
+            expect(
+                formatSignatureChange({
+                    kind: 'removed',
+                    path: 'fields.age',
+                    previous: 'number',
+                }),
+            ).toBe('fields.age: removed (was "number")');
+        });
+    });
+
+    describe('posixPath', () => {
+        it('matches node:path for POSIX paths', () => {
+            for (const filePath of [
+                '/a/b/c.json',
+                'a/b.spec.ts',
+                'file',
+                '/file',
+                '.hidden',
+            ]) {
+                expect(posixPath.basename(filePath)).toBe(
+                    path.posix.basename(filePath),
+                );
+                expect(posixPath.dirname(filePath)).toBe(
+                    path.posix.dirname(filePath),
+                );
+                expect(posixPath.extname(filePath)).toBe(
+                    path.posix.extname(filePath),
+                );
+                expect(posixPath.isAbsolute(filePath)).toBe(
+                    path.posix.isAbsolute(filePath),
+                );
+            }
+            for (const parts of [
+                ['/base', 'users/admin', '__fixtures__'],
+                ['', 'a', './b', '../c'],
+                ['/a', '../../b'],
+                ['a', '../..', 'b'],
+            ]) {
+                expect(posixPath.join(...parts)).toBe(
+                    path.posix.join(...parts),
+                );
+            }
+        });
+    });
+
+    describe('caller lookup', () => {
+        it('returns the first file on the stack outside the library', () => {
+            expect(getCallerFile()).toBe(__filename);
+        });
+
+        it('returns the full name of the running test', () => {
+            expect(getCurrentTestName()).toBe(
+                'Utils > caller lookup > returns the full name of the running test',
+            );
+        });
+    });
+
     describe('validateBatchSize', () => {
         it('accepts valid batch sizes', () => {
             expect(() => validateBatchSize(0)).not.toThrow();
@@ -1,4 +1,32 @@
 import { isFunction, isObject, isRecord } from '@tool-belt/type-predicates';
+import { FixtureError, FixtureSignatureChange } from './errors';
+
+/**
+ * Converts instances of a class to JSON-compatible data and back, so that they survive
+ * being cached in a fixture file.
+ *
+ * @template T - The type of the values handled by the codec
+ * @template S - The serialized form, which may contain any value the fixture serializer supports
+ *
+ * @example
+ * ```typescript
+ * const moneyCodec: FixtureCodec<Money, string> = {
+ *   name: 'Money',
+ *   test: (value) => value instanceof Money,
+ *   encode: (money) => money.toString(),
+ *   decode: (data) => Money.parse(data),
+ * };
+ * ```
+ */
+export interface FixtureCodec<T = unknown, S = unknown> {
+    decode(data: S): T;
+    encode(value: T): S;
+    /**
+     * Name stored in the fixture file to select the codec when reading, e.g. `'Money'`.
+     */
+    name: string;
+    test(value: unknown): value is T;
+}
 
 /**
  * Encapsulates a function and its arguments for deferred execution within factories.
@@ -22,6 +50,219 @@ export class Ref<T, C extends (...args: never[]) => T> {
     }
 }
 
+const TYPE_KEY = '$type';
+
+/**
+ * The first 64 primes, whose roots define the constants of SHA-256.
+ */
+const SHA256_PRIMES = getPrimes(64);
+
+/**
+ * Round constants of SHA-256: the first 32 bits of the fractional parts of the cube roots of the primes.
+ */
+const SHA256_ROUND_CONSTANTS = Uint32Array.from(SHA256_PRIMES, (prime) =>
+    getFractionBits(Math.cbrt(prime)),
+);
+
+/**
+ * Files of the library, whose frames are skipped when looking up the caller of the library.
+ */
+const libraryFiles = new Set<string>(getStackFiles().slice(0, 1));
+
+/**
+ * @param pointer A JSON pointer, e.g. `/posts/0`
+ * @param key The key or index to append
+ * @returns The pointer of the entry, with `~` and `/` escaped as in RFC 6901
+ */
+export function appendPointer(pointer: string, key: number | string): string {
+    return `${pointer}/${String(key).replaceAll('~', '~0').replaceAll('/', '~1')}`;
+}
+
+/**
+ * Creates a SHA-256 hash with the `update()`/`digest()` interface of `node:crypto`, implemented
+ * in plain JavaScript so that fixture signatures can be calculated in any environment.
+ *
+ * @returns A hash that strings are added to with `update()`
+ */
+export function createSignatureHash(): {
+    digest(encoding: 'hex'): string;
+    update(data: string): void;
+} {
+    const chunks: string[] = [];
+    return {
+        digest: () => sha256(chunks.join('')),
+        update: (data) => {
+            chunks.push(data);
+        },
+    };
+}
+
+/**
+ * Restores a value written by `encodeFixtureValue()`.
+ *
+ * @param value The JSON-compatible value read from a fixture file
+ * @param codecs Codecs for custom classes, matched by name
+ * @returns The value with its Dates, Maps, Sets, BigInts, undefined values, custom classes and shared references restored
+ * @throws {FixtureError} If the value contains a type without a built-in handler or codec, or a reference that cannot be resolved
+ */
+export function decodeFixtureValue(
+    value: unknown,
+    codecs: readonly FixtureCodec[] = [],
+): unknown {
+    return decodeEntry(value, codecs, '', new Map());
+}
+
+/**
+ * Compares the signature inputs stored in a fixture with those of the current factory.
+ * Records and arrays are compared entry by entry, other values as a whole.
+ *
+ * @param previous The signature inputs stored in the fixture
+ * @param current The signature inputs of the current factory
+ * @param path The path of the compared values, used as prefix of the change paths
+ * @returns The inputs that were added, removed or changed, in the order of their paths
+ */
+export function diffSignatureInputs(
+    previous: unknown,
+    current: unknown,
+    path = '',
+): FixtureSignatureChange[] {
+    const isContainer = (value: unknown) =>
+        Array.isArray(value) || isRecord(value);
+    if (
+        isContainer(previous) &&
+        isContainer(current) &&
+        Array.isArray(previous) === Array.isArray(current)
+    ) {
+        const previousEntries = previous as Record<string, unknown>;
+        const currentEntries = current as Record<string, unknown>;
+        const keys = [
+            ...new Set([
+                ...Object.keys(currentEntries),
+                ...Object.keys(previousEntries),
+            ]),
+        ];
+        // Array indices are already in order
+        return (Array.isArray(current) ? keys : keys.sort()).flatMap((key) =>
+            diffSignatureInputs(
+                previousEntries[key],
+                currentEntries[key],
+                path ? `${path}.${key}` : key,
+            ),
+        );
+    }
+    if (JSON.stringify(previous) === JSON.stringify(current)) {
+        return [];
+    }
+    if (previous === undefined) {
+        return [{ current, kind: 'added', path }];
+    }
+    if (current === undefined) {
+        return [{ kind: 'removed', path, previous }];
+    }
+    return [{ current, kind: 'changed', path, previous }];
+}
+
+/**
+ * Converts a value to JSON-compatible data that `decodeFixtureValue()` restores with its types.
+ * Dates, Maps, Sets, BigInts, non-finite numbers, undefined values and instances handled by a codec
+ * are wrapped in `{ "$type": name, "value": data }` envelopes. Other objects are written as plain objects.
+ * Objects that occur more than once, e.g. back-references to a parent instance, are written once and
+ * then as `{ "$type": "Ref", "value": pointer }` envelopes holding the JSON pointer of the first occurrence.
+ *
+ * @param value The value to encode
+ * @param codecs Codecs for custom classes, tried in order before the built-in handlers
+ * @returns The JSON-compatible value
+ */
+export function encodeFixtureValue(
+    value: unknown,
+    codecs: readonly FixtureCodec[] = [],
+): unknown {
+    return encodeEntry(value, codecs, '', new Map());
+}
+
+/**
+ * @param change A changed signature input
+ * @returns The change as a line of an error message, e.g. `options.seed: 1 → 2`
+ */
+export function formatSignatureChange(change: FixtureSignatureChange): string {
+    switch (change.kind) {
+        case 'added': {
+            return `${change.path}: added (${JSON.stringify(change.current)})`;
+        }
+        case 'changed': {
+            return `${change.path}: ${JSON.stringify(change.previous)} → ${JSON.stringify(change.current)}`;
+        }
+        case 'removed': {
+            return `${change.path}: removed (was ${JSON.stringify(change.previous)})`;
+        }
+    }
+}
+
+/**
+ * Finds the module that called into the library, e.g. the test file that built a fixture.
+ *
+ * @returns The path of the first file on the call stack that is not part of the library, if the runtime exposes it
+ */
+export function getCallerFile(): string | undefined {
+    return getStackFiles().find((file) => !libraryFiles.has(file));
+}
+
+/**
+ * Reads the full name of the running test from the Vitest or Jest `expect` state.
+ *
+ * @returns The name of the test including its describe blocks, or undefined outside a test
+ */
+export function getCurrentTestName(): string | undefined {
+    const globals = globalThis as Record<PropertyKey, unknown>;
+    const expect = globals[Symbol.for('expect-global')] ?? globals.expect;
+    // expect is a function, which isObject() and hence hasMethod() reject
+    const getState: unknown =
+        isFunction(expect) && Reflect.get(expect, 'getState');
+    if (!isFunction(getState)) {
+        return undefined;
+    }
+    const state: unknown = Reflect.apply(getState, expect, []);
+    const name = getProperty(state, ['currentTestName']);
+    return typeof name === 'string' && name ? name : undefined;
+}
+
+/**
+ * The subset of `node:path` used for fixture paths, implemented for POSIX-style paths
+ * in environments without `node:path`.
+ */
+export const posixPath = {
+    basename: (filePath: string): string =>
+        filePath.slice(filePath.lastIndexOf('/') + 1),
+    dirname: (filePath: string): string => {
+        const index = filePath.lastIndexOf('/');
+        return index === -1 ? '.' : filePath.slice(0, index) || '/';
+    },
+    extname: (filePath: string): string => {
+        const name = posixPath.basename(filePath);
+        const index = name.lastIndexOf('.');
+        return index > 0 ? name.slice(index) : '';
+    },
+    isAbsolute: (filePath: string): boolean => filePath.startsWith('/'),
+    join: (...paths: string[]): string => {
+        const joined = paths.filter(Boolean).join('/');
+        const isAbsolute = joined.startsWith('/');
+        const segments: string[] = [];
+        for (const segment of joined.split('/')) {
+            if (segment === '..') {
+                if (segments.length > 0 && segments.at(-1) !== '..') {
+                    segments.pop();
+                } else if (!isAbsolute) {
+                    segments.push(segment);
+                }
+            } else if (segment && segment !== '.') {
+                segments.push(segment);
+            }
+        }
+        const normalized = segments.join('/');
+        return isAbsolute ? `/${normalized}` : normalized || '.';
+    },
+};
+
 /**
  * Safely get a nested property value from an object using a path array.
  *
@@ -83,6 +324,16 @@ export function iterableToArray<T>(iterable: Iterable<T>): T[] {
     return values;
 }
 
+/**
+ * Marks the calling module as part of the library, so that `getCallerFile()` skips its frames.
+ */
+export function markLibraryModule(): void {
+    const caller = getStackFiles().find((file) => !libraryFiles.has(file));
+    if (caller) {
+        libraryFiles.add(caller);
+    }
+}
+
 /**
  * Performs a deep merge of objects, recursively merging nested objects.
  * Arrays and non-object values are replaced, not merged.
@@ -125,3 +376,356 @@ export function validateBatchSize(size: number): void {
         throw new Error('Batch size must be a non-negative integer');
     }
 }
+
+/**
+ * @param value The encoded value
+ * @param codecs Codecs for custom classes, matched by name
+ * @param pointer JSON pointer of the value within the encoded data
+ * @param decoded The decoded objects by the pointer of their encoded form, used to resolve references
+ * @returns The decoded value
+ */
+function decodeEntry(
+    value: unknown,
+    codecs: readonly FixtureCodec[],
+    pointer: string,
+    decoded: Map<string, unknown>,
+): unknown {
+    const decode = (item: unknown, key: number | string) =>
+        decodeEntry(item, codecs, appendPointer(pointer, key), decoded);
+    // Containers are registered before their entries are decoded, so that entries can refer back to them
+    const decodeEntries = (record: Record<string, unknown>, at: string) => {
+        const result: Record<string, unknown> = {};
+        decoded.set(at, result);
+        for (const [key, item] of Object.entries(record)) {
+            result[key] = decodeEntry(
+                item,
+                codecs,
+                appendPointer(at, key),
+                decoded,
+            );
+        }
+        return result;
+    };
+
+    if (Array.isArray(value)) {
+        const result: unknown[] = [];
+        decoded.set(pointer, result);
+        for (const [index, item] of value.entries()) {
+            result.push(decode(item, index));
+        }
+        return result;
+    }
+    if (!isRecord(value)) {
+        return value;
+    }
+    if (!(TYPE_KEY in value)) {
+        return decodeEntries(value, pointer);
+    }
+
+    const { [TYPE_KEY]: type, value: data } = value;
+    const dataPointer = appendPointer(pointer, 'value');
+    const codec = codecs.find((candidate) => candidate.name === type);
+    if (codec) {
+        const result = codec.decode(decode(data, 'value'));
+        decoded.set(pointer, result);
+        return result;
+    }
+    switch (type) {
+        case 'BigInt': {
+            return BigInt(data as string);
+        }
+        case 'Date': {
+            const result = new Date((data as null | string) ?? Number.NaN);
+            decoded.set(pointer, result);
+            return result;
+        }
+        case 'Map': {
+            const result = new Map<unknown, unknown>();
+            decoded.set(pointer, result);
+            for (const [index, [key, item]] of (
+                data as [unknown, unknown][]
+            ).entries()) {
+                const entryPointer = appendPointer(dataPointer, index);
+                result.set(
+                    decodeEntry(
+                        key,
+                        codecs,
+                        appendPointer(entryPointer, 0),
+                        decoded,
+                    ),
+                    decodeEntry(
+                        item,
+                        codecs,
+                        appendPointer(entryPointer, 1),
+                        decoded,
+                    ),
+                );
+            }
+            return result;
+        }
+        case 'Number': {
+            return Number(data);
+        }
+        case 'Object': {
+            const result = decodeEntries(
+                data as Record<string, unknown>,
+                dataPointer,
+            );
+            decoded.set(pointer, result);
+            return result;
+        }
+        case 'Ref': {
+            if (!decoded.has(data as string)) {
+                throw new FixtureError(
+                    `Cannot resolve fixture reference "${String(data)}" at "${pointer}".`,
+                );
+            }
+            return decoded.get(data as string);
+        }
+        case 'Set': {
+            const result = new Set<unknown>();
+            decoded.set(pointer, result);
+            for (const [index, item] of (data as unknown[]).entries()) {
+                result.add(
+                    decodeEntry(
+                        item,
+                        codecs,
+                        appendPointer(dataPointer, index),
+                        decoded,
+                    ),
+                );
+            }
+            return result;
+        }
+        case 'undefined': {
+            return undefined;
+        }
+        default: {
+            throw new FixtureError(
+                `Cannot decode fixture value of type "${String(type)}". Register a codec for it in the fixture configuration.`,
+            );
+        }
+    }
+}
+
+/**
+ * @param value The value to encode
+ * @param codecs Codecs for custom classes, tried in order before the built-in handlers
+ * @param pointer JSON pointer of the encoded value within the encoded data
+ * @param seen The pointers of the objects encoded so far, used to write repeated objects as references
+ * @returns The JSON-compatible value
+ */
+function encodeEntry(
+    value: unknown,
+    codecs: readonly FixtureCodec[],
+    pointer: string,
+    seen: Map<object, string>,
+): unknown {
+    const encode = (item: unknown, at: string) =>
+        encodeEntry(item, codecs, at, seen);
+
+    if (typeof value === 'object' && value !== null) {
+        const previous = seen.get(value);
+        if (previous !== undefined) {
+            return { [TYPE_KEY]: 'Ref', value: previous };
+        }
+        seen.set(value, pointer);
+    }
+
+    const dataPointer = appendPointer(pointer, 'value');
+    const codec = codecs.find((candidate) => candidate.test(value));
+    if (codec) {
+        return {
+            [TYPE_KEY]: codec.name,
+            value: encode(codec.encode(value), dataPointer),
+        };
+    }
+    if (value === undefined) {
+        return { [TYPE_KEY]: 'undefined' };
+    }
+    if (typeof value === 'bigint') {
+        return { [TYPE_KEY]: 'BigInt', value: value.toString() };
+    }
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+        return { [TYPE_KEY]: 'Number', value: String(value) };
+    }
+    if (value instanceof Date) {
+        return {
+            [TYPE_KEY]: 'Date',
+            value: Number.isNaN(value.getTime()) ? null : value.toISOString(),
+        };
+    }
+    if (value instanceof Map) {
+        return {
+            [TYPE_KEY]: 'Map',
+            value: [...(value as Map<unknown, unknown>)].map(
+                ([key, item], index) => {
+                    const entryPointer = appendPointer(dataPointer, index);
+                    return [
+                        encode(key, appendPointer(entryPointer, 0)),
+                        encode(item, appendPointer(entryPointer, 1)),
+                    ];
+                },
+            ),
+        };
+    }
+    if (value instanceof Set) {
+        return {
+            [TYPE_KEY]: 'Set',
+            value: [...value].map((item, index) =>
+                encode(item, appendPointer(dataPointer, index)),
+            ),
+        };
+    }
+    if (Array.isArray(value)) {
+        return value.map((item, index) =>
+            encode(item, appendPointer(pointer, index)),
+        );
+    }
+    if (isRecord(value)) {
+        const wrapped = TYPE_KEY in value;
+        const entriesPointer = wrapped ? dataPointer : pointer;
+        const entries = Object.fromEntries(
+            Object.entries(value).map(([key, item]) => [
+                key,
+                encode(item, appendPointer(entriesPointer, key)),
+            ]),
+        );
+        return wrapped ? { [TYPE_KEY]: 'Object', value: entries } : entries;
+    }
+    return value;
+}
+
+/**
+ * @param value A positive number
+ * @returns The first 32 bits of the fractional part of the number
+ */
+function getFractionBits(value: number): number {
+    return Math.floor((value - Math.floor(value)) * 0x1_00_00_00_00) >>> 0;
+}
+
+/**
+ * @param count The number of primes
+ * @returns The first primes in ascending order
+ */
+function getPrimes(count: number): number[] {
+    const primes: number[] = [];
+    for (let candidate = 2; primes.length < count; candidate++) {
+        if (primes.every((prime) => candidate % prime !== 0)) {
+            primes.push(candidate);
+        }
+    }
+    return primes;
+}
+
+/**
+ * Extracts the file of each frame of the current call stack.
+ *
+ * @returns The file paths, innermost frame first, or an empty array if the stack cannot be parsed
+ */
+function getStackFiles(): string[] {
+    const { stackTraceLimit } = Error;
+    Error.stackTraceLimit = 50;
+    const { stack } = new Error('stack');
+    Error.stackTraceLimit = stackTraceLimit;
+
+    const files: string[] = [];
+    for (const line of stack?.split('\n') ?? []) {
+        const match = /(?:^|[\s(@])((?:file:\/\/)?[^\s()@]+?):\d+:\d+\)?$/.exec(
+            line.trim(),
+        );
+        if (match) {
+            files.push(
+                match[1].startsWith('file://')
+                    ? decodeURIComponent(
+                          match[1].replace(/^file:\/\/(\/(?=[A-Za-z]:))?/, ''),
+                      )
+                    : match[1],
+            );
+        }
+    }
+    return files;
+}
+
+/**
+ * @param value A 32-bit word
+ * @param bits The number of bits to rotate by
+ * @returns The word rotated to the right
+ */
+function rotate(value: number, bits: number): number {
+    return (value >>> bits) | (value << (32 - bits));
+}
+
+/**
+ * Calculates the SHA-256 hash of the UTF-8 encoding of a string.
+ *
+ * @param message The string to hash
+ * @returns The hash as a lowercase hex string
+ */
+function sha256(message: string): string {
+    const bytes = new TextEncoder().encode(message);
+    // Pad to a multiple of 64 bytes: a 1 bit, zeros and the message length in bits
+    const paddedLength = Math.ceil((bytes.length + 9) / 64) * 64;
+    const padded = new Uint8Array(paddedLength);
+    padded.set(bytes);
+    padded[bytes.length] = 0x80;
+    const view = new DataView(padded.buffer);
+    view.setUint32(paddedLength - 8, Math.floor(bytes.length / 0x20_00_00_00));
+    view.setUint32(paddedLength - 4, (bytes.length * 8) >>> 0);
+
+    // Initial hash values: the fractional parts of the square roots of the first 8 primes
+    const state = Uint32Array.from(SHA256_PRIMES.slice(0, 8), (prime) =>
+        getFractionBits(Math.sqrt(prime)),
+    );
+    const words = new Uint32Array(64);
+
+    for (let offset = 0; offset < paddedLength; offset += 64) {
+        for (let i = 0; i < 16; i++) {
+            words[i] = view.getUint32(offset + i * 4);
+        }
+        for (let i = 16; i < 64; i++) {
+            const s0 =
+                rotate(words[i - 15], 7) ^
+                rotate(words[i - 15], 18) ^
+                (words[i - 15] >>> 3);
+            const s1 =
+                rotate(words[i - 2], 17) ^
+                rotate(words[i - 2], 19) ^
+                (words[i - 2] >>> 10);
+            words[i] = words[i - 16] + s0 + words[i - 7] + s1;
+        }
+
+        let [a, b, c, d, e, f, g, h] = state;
+        for (let i = 0; i < 64; i++) {
+            const t1 =
+                h +
+                (rotate(e, 6) ^ rotate(e, 11) ^ rotate(e, 25)) +
+                ((e & f) ^ (~e & g)) +
+                SHA256_ROUND_CONSTANTS[i] +
+                words[i];
+            const t2 =
+                (rotate(a, 2) ^ rotate(a, 13) ^ rotate(a, 22)) +
+                ((a & b) ^ (a & c) ^ (b & c));
+            h = g;
+            g = f;
+            f = e;
+            e = (d + t1) >>> 0;
+            d = c;
+            c = b;
+            b = a;
+            a = (t1 + t2) >>> 0;
+        }
+        state[0] += a;
+        state[1] += b;
+        state[2] += c;
+        state[3] += d;
+        state[4] += e;
+        state[5] += f;
+        state[6] += g;
+        state[7] += h;
+    }
+
+    return Array.from(state, (word) => word.toString(16).padStart(8, '0')).join(
+        '',
+    );
+}
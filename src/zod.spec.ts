@@ -1,6 +1,11 @@
 import { z } from 'zod/v4';
 import { ZodFactory } from './zod';
-import { Factory } from './index';
+import {
+    CircularReferenceError,
+    ConfigurationError,
+    Factory,
+    UniqueConstraintError,
+} from './index';
 
 describe('ZodFactory', () => {
     describe('constructor', () => {
@@ -1782,6 +1787,24 @@ describe('ZodFactory', () => {
     });
 
     describe('integration with base Factory methods', () => {
+        it('should generate schema values in buildAsync() and batchAsync()', async () => {
+            const schema = z.object({
+                id: z.number().int(),
+                name: z.string(),
+            });
+            const factory = new ZodFactory(schema, async () => ({
+                name: await Promise.resolve('Async'),
+            }));
+
+            const built = await factory.buildAsync();
+            const batch = await factory.batchAsync(2);
+
+            expect(Number.isInteger(built.id)).toBe(true);
+            expect(built.name).toBe('Async');
+            expect(batch).toHaveLength(2);
+            expect(() => schema.array().parse(batch)).not.toThrow();
+        });
+
         it('should work with batch method', () => {
             const schema = z.object({
                 id: z.number().int(),
@@ -1884,6 +1907,328 @@ describe('ZodFactory', () => {
         });
     });
 
+    describe('traits', () => {
+        const schema = z.object({
+            name: z.string(),
+            role: z.enum(['admin', 'guest', 'user']),
+            verified: z.boolean(),
+        });
+
+        it('applies traits in build() and batch()', () => {
+            const factory = new ZodFactory(schema)
+                .trait('admin', { role: 'admin' })
+                .trait('verified', () => ({ verified: true }));
+
+            const admin = factory.build(undefined, {
+                traits: ['admin', 'verified'],
+            });
+            expect(admin.role).toBe('admin');
+            expect(admin.verified).toBe(true);
+
+            const guests = factory.batch(
+                3,
+                { role: 'guest' },
+                {
+                    traits: ['admin'],
+                },
+            );
+            guests.forEach((guest) => {
+                expect(guest.role).toBe('guest');
+            });
+        });
+
+        it('keeps ZodFactory methods available after registering traits', () => {
+            const factory = new ZodFactory(schema)
+                .trait('admin', { role: 'admin' })
+                .withTypeHandler('ZodBigInt', () => BigInt(1));
+
+            expect(factory).toBeInstanceOf(ZodFactory);
+            expect(factory.build(undefined, { traits: ['admin'] }).role).toBe(
+                'admin',
+            );
+        });
+    });
+
+    describe('seeding', () => {
+        const schema = z.object({
+            email: z.email(),
+            id: z.uuid(),
+            score: z.number().int().min(0).max(1000),
+            tags: z.array(z.string()).min(1).max(5),
+        });
+
+        it('reproduces schema generation with the seed option and withSeed()', () => {
+            expect(new ZodFactory(schema, { seed: 42 }).batch(3)).toEqual(
+                new ZodFactory(schema, { seed: 42 }).batch(3),
+            );
+
+            const factory = new ZodFactory(schema);
+            const first = factory.withSeed(7).build();
+            expect(factory.withSeed(7).build()).toEqual(first);
+        });
+    });
+
+    describe('clone', () => {
+        it('keeps the schema and custom type handlers', () => {
+            const schema = z.object({
+                id: z.bigint(),
+                name: z.string(),
+            });
+            const factory = new ZodFactory(schema).withTypeHandler(
+                'ZodBigInt',
+                () => 42n,
+            );
+            const copy = factory.withOptions({ maxDepth: 2 });
+
+            expect(copy).toBeInstanceOf(ZodFactory);
+            expect(copy.options?.maxDepth).toBe(2);
+            expect(copy.build()).toEqual({ id: 42n, name: expect.any(String) });
+            expect(factory.clone().batch(2)).toHaveLength(2);
+        });
+    });
+
+    describe('associations', () => {
+        it('builds associations after parsing the schema', () => {
+            const AuthorFactory = new ZodFactory(
+                z.object({ id: z.uuid(), name: z.string() }),
+            );
+            const BookFactory = new ZodFactory(
+                z.object({
+                    author: z
+                        .object({ id: z.string(), name: z.string() })
+                        .optional(),
+                    authorId: z.string(),
+                    title: z.string(),
+                }),
+            ).belongsTo('author', AuthorFactory, { foreignKey: 'authorId' });
+
+            const book = BookFactory.build();
+            expect(book.authorId).toBe(book.author?.id);
+            for (const item of BookFactory.batch(2)) {
+                expect(item.authorId).toBe(item.author?.id);
+            }
+        });
+    });
+
+    describe('nested builds', () => {
+        const childSchema = z.object({
+            name: z.string(),
+            owner: z.any(),
+        });
+        const treeSchema = z.object({
+            child: z.any(),
+            name: z.string(),
+        });
+
+        type Tree = z.output<typeof treeSchema>;
+
+        interface Owner {
+            child: z.output<typeof childSchema>;
+            children: z.output<typeof childSchema>[];
+        }
+
+        it('reports the nesting depth to hooks and links back to the parent', () => {
+            const depths: number[] = [];
+            const ChildFactory: ZodFactory<typeof childSchema> = new ZodFactory(
+                childSchema,
+                (faker) => ({ owner: faker.parent(OwnerFactory) }),
+            )
+                .beforeBatch((kwargs, { depth }) => {
+                    depths.push(depth);
+                    return kwargs;
+                })
+                .afterBuild((child, { depth }) => {
+                    depths.push(depth);
+                    return child;
+                });
+            const OwnerFactory: Factory<Owner> = new Factory<Owner>(
+                (faker) => ({
+                    child: faker.use(() => ChildFactory.build()),
+                    children: faker.use(() => ChildFactory.batch(1)),
+                }),
+            );
+
+            const owner = OwnerFactory.build();
+
+            expect(depths).toEqual([1, 1, 1]);
+            expect(owner.child.owner).toBe(owner);
+            expect(owner.children[0].owner).toBe(owner);
+            expect(ChildFactory.build().owner).toBeUndefined();
+        });
+
+        it('takes part in strict cycle detection and the depth fallback', () => {
+            const StrictFactory = new ZodFactory<typeof treeSchema>(
+                treeSchema,
+                (faker): Partial<Tree> => ({
+                    child: faker.use(() => StrictFactory.build()),
+                }),
+                { strict: true },
+            );
+            const LimitedFactory = new ZodFactory<typeof treeSchema>(
+                treeSchema,
+                (faker): Partial<Tree> => ({
+                    child: faker.use(() => LimitedFactory.build()),
+                }),
+                {
+                    depthFallback: (_factory, depth) => `cut at ${depth}`,
+                    maxDepth: 2,
+                },
+            );
+
+            expect(() => StrictFactory.build()).toThrow(CircularReferenceError);
+            const tree = LimitedFactory.build();
+            expect(typeof tree.child.name).toBe('string');
+            expect(tree.child.child).toBe('cut at 2');
+        });
+    });
+
+    describe('transient params', () => {
+        const schema = z.object({
+            name: z.string(),
+            tags: z.array(z.string()),
+        });
+
+        it('passes transient params to the factory function and hooks', () => {
+            const factory = new ZodFactory(
+                schema,
+                (faker, _iteration, _kwargs, transient) => ({
+                    tags: Array.from(
+                        {
+                            length:
+                                (transient?.tagCount as number | undefined) ??
+                                1,
+                        },
+                        () => faker.lorem.word(),
+                    ),
+                }),
+            ).afterBuild((item, { transient }) =>
+                transient.prefix
+                    ? {
+                          ...item,
+                          name: `${transient.prefix as string}${item.name}`,
+                      }
+                    : item,
+            );
+
+            const item = factory.build(
+                { name: 'x' },
+                { transient: { prefix: '>', tagCount: 3 } },
+            );
+            expect(item.name).toBe('>x');
+            expect(item.tags).toHaveLength(3);
+            expect(item).not.toHaveProperty('tagCount');
+
+            factory
+                .batch(2, undefined, { transient: { tagCount: 2 } })
+                .forEach((batchItem) => {
+                    expect(batchItem.tags).toHaveLength(2);
+                });
+        });
+    });
+
+    describe('batch hooks', () => {
+        const schema = z.object({
+            name: z.string(),
+            rank: z.number(),
+        });
+
+        it('applies build and batch hooks in batch()', () => {
+            const factory = new ZodFactory(schema)
+                .beforeBuild((params) => ({ ...params, name: 'hooked' }))
+                .afterBatch((items) =>
+                    items.map((item, i) => ({ ...item, rank: i + 1 })),
+                );
+
+            expect(factory.batch(2)).toEqual([
+                { name: 'hooked', rank: 1 },
+                { name: 'hooked', rank: 2 },
+            ]);
+        });
+
+        it('throws ConfigurationError for async hooks in batch()', () => {
+            const factory = new ZodFactory(schema).beforeBatch(
+                async (kwargs) => kwargs,
+            );
+
+            expect(() => factory.batch(2)).toThrow(ConfigurationError);
+        });
+    });
+
+    describe('unique', () => {
+        const schema = z.object({
+            email: z.enum(['a@x.io', 'b@x.io', 'c@x.io']),
+            name: z.string(),
+        });
+
+        it('regenerates colliding fields in build() and batch()', () => {
+            const factory = new ZodFactory(schema).unique(['email'], {
+                maxRetries: 100,
+                scope: 'batch',
+            });
+
+            const emails = factory.batch(3).map((item) => item.email);
+            expect(emails.sort()).toEqual(['a@x.io', 'b@x.io', 'c@x.io']);
+            expect(() => factory.batch(4)).toThrow(UniqueConstraintError);
+        });
+
+        it('keeps values unique across builds with the factory scope', () => {
+            const factory = new ZodFactory(schema).unique(['email'], {
+                maxRetries: 100,
+            });
+
+            const emails = [
+                factory.build().email,
+                factory.build().email,
+                factory.build().email,
+            ];
+            expect(emails.sort()).toEqual(['a@x.io', 'b@x.io', 'c@x.io']);
+            expect(() => factory.build()).toThrow(UniqueConstraintError);
+        });
+
+        it('regenerates colliding fields in batchAsync()', async () => {
+            const factory = new ZodFactory(schema).unique(['email'], {
+                maxRetries: 100,
+                scope: 'batch',
+            });
+
+            const items = await factory.batchAsync(3);
+            expect(() => schema.array().parse(items)).not.toThrow();
+            expect(items.map((item) => item.email).sort()).toEqual([
+                'a@x.io',
+                'b@x.io',
+                'c@x.io',
+            ]);
+            await expect(factory.batchAsync(4)).rejects.toThrow(
+                UniqueConstraintError,
+            );
+        });
+
+        it('persists unique schema instances in createMany()', async () => {
+            const createMany = vi.fn((data: z.output<typeof schema>[]) =>
+                Promise.resolve(data),
+            );
+            const factory = new ZodFactory(schema)
+                .unique(['email'], { maxRetries: 100 })
+                .withAdapter({
+                    create: (data) => Promise.resolve(data),
+                    createMany,
+                });
+
+            const items = await factory.createMany(3);
+
+            expect(createMany).toHaveBeenCalledWith(items);
+            expect(() => schema.array().parse(items)).not.toThrow();
+            expect(items.map((item) => item.email).sort()).toEqual([
+                'a@x.io',
+                'b@x.io',
+                'c@x.io',
+            ]);
+            await expect(factory.createMany(1)).rejects.toThrow(
+                UniqueConstraintError,
+            );
+        });
+    });
+
     describe('complex real-world schemas', () => {
         it('should generate user profile data', () => {
             const addressSchema = z.object({
@@ -78,29 +78,19 @@ import type {
     $ZodCheckStringFormat,
     $ZodType,
 } from 'zod/v4/core';
-import { Factory, FactoryFunction, type FactoryOptions } from './index';
-import { ConfigurationError, FixtureError } from './errors';
+import {
+    Factory,
+    FactoryFunction,
+    type FactoryOptions,
+    type TraitDefinition,
+} from './index';
 import {
     createTypeGuard,
-    isAsyncFunction,
     isFunction,
     isNotNullish,
     isObject,
     isRecord,
 } from '@tool-belt/type-predicates';
-// Node.js modules - only available in Node.js environment
-let createHash: typeof import('node:crypto').createHash | undefined;
-
-// Conditionally import Node.js modules for fixture functionality
-/* eslint-disable @typescript-eslint/no-unnecessary-condition, @typescript-eslint/no-require-imports, @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access, prefer-destructuring */
-if (typeof process !== 'undefined' && process.versions?.node) {
-    try {
-        createHash = require('node:crypto').createHash;
-    } catch {
-        // Ignore import errors in environments where Node.js modules aren't available
-    }
-}
-/* eslint-enable @typescript-eslint/no-unnecessary-condition, @typescript-eslint/no-require-imports, @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access, prefer-destructuring */
 import { PartialFactoryFunction } from '.';
 import {
     COLLECTION_SIZES,
@@ -108,7 +98,15 @@ import {
     NUMBER_CONSTRAINTS,
     STRING_LENGTHS,
 } from './constants';
-import { getProperty, hasMethod, hasProperty, merge } from './utils';
+import {
+    getProperty,
+    hasMethod,
+    hasProperty,
+    markLibraryModule,
+    merge,
+} from './utils';
+
+markLibraryModule();
 
 /**
  * Helper functions to handle both Zod v3 and v4 schema structures
@@ -792,6 +790,17 @@ class ZodSchemaGenerator {
         this.initializeBuiltinHandlers();
     }
 
+    /**
+     * Copy the registered type handlers to another generator.
+     *
+     * @param target The generator of a copied factory, e.g. one created by `withOptions()`
+     */
+    copyTypeHandlersTo(target: ZodSchemaGenerator): void {
+        for (const [typeName, handler] of this.typeHandlers) {
+            target.typeHandlers.set(typeName, handler);
+        }
+    }
+
     /**
      * Generate a value from any ZodType schema.
      *
@@ -1715,6 +1724,7 @@ class ZodSchemaGenerator {
  *
  * @template T - Must be a ZodObject type that defines the schema shape
  * @template O - Factory options extending ZodFactoryOptions
+ * @template N - The names of the registered traits
  *
  * @see {@link https://github.com/goldziher/interface-forge/blob/main/examples/07-zod-basic.ts | Basic Example}
  * @see {@link https://github.com/goldziher/interface-forge/blob/main/examples/07-zod-integration.ts | Advanced Example}
@@ -1724,7 +1734,8 @@ export class ZodFactory<
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     T extends ZodObject<any, any>,
     O extends ZodFactoryOptions = ZodFactoryOptions,
-> extends Factory<z.output<T>, O> {
+    N extends string = never,
+> extends Factory<z.output<T>, O, FactoryFunction<z.output<T>>, N> {
     private readonly generator: ZodSchemaGenerator;
     private readonly schema: T;
 
@@ -1764,12 +1775,14 @@ export class ZodFactory<
         optionsOrFactory?: O | PartialFactoryFunction<z.output<T>>,
         options?: O,
     ) {
-        const factoryFunction = isFunction(optionsOrFactory)
-            ? optionsOrFactory
-            : ((() => ({})) as PartialFactoryFunction<z.output<T>>);
+        // isFunction() does not match async functions
+        const factoryFunction =
+            typeof optionsOrFactory === 'function'
+                ? optionsOrFactory
+                : ((() => ({})) as PartialFactoryFunction<z.output<T>>);
         const factoryOptions = isObject(options)
             ? options
-            : isObject(optionsOrFactory) && !isFunction(optionsOrFactory)
+            : isObject(optionsOrFactory)
               ? (optionsOrFactory as O)
               : ({} as O);
 
@@ -1782,170 +1795,19 @@ export class ZodFactory<
     }
 
     /**
-     * Generates a batch of instances that conform to the Zod schema.
-     *
-     * @param size - Number of instances to generate
-     * @param kwargs - Optional overrides for each instance
-     * @returns Array of generated instances
-     */
-    batch = (
-        size: number,
-        kwargs?: Partial<z.output<T>> | Partial<z.output<T>>[],
-    ): z.output<T>[] => {
-        if (isAsyncFunction(this.factory)) {
-            throw new ConfigurationError(
-                'Async factory function detected. Use buildAsync() method to build instances with async factories.',
-            );
-        }
-
-        if (!Number.isInteger(size) || size < 0) {
-            throw new Error('Batch size must be a non-negative integer');
-        }
-
-        if (size === 0) {
-            return [];
-        }
-
-        const results: z.output<T>[] = [];
-
-        if (kwargs) {
-            const generator = this.iterate<Partial<z.output<T>>>(
-                Array.isArray(kwargs)
-                    ? kwargs
-                    : ([kwargs] as Partial<z.output<T>>[]),
-            );
-
-            for (let i = 0; i < size; i++) {
-                const overrides = generator.next().value;
-                const generatedSchema = this.generator.generateFromSchema(
-                    this.schema,
-                );
-                const generatedFromFactory = this.factory(
-                    this as unknown as Factory<z.output<T>>,
-                    i,
-                );
-
-                const result = this.schema.parse({
-                    ...(generatedSchema as Record<string, unknown>),
-                    ...(generatedFromFactory as Record<string, unknown>),
-                    ...(overrides as Record<string, unknown>),
-                });
-                results.push(result);
-            }
-        } else {
-            for (let i = 0; i < size; i++) {
-                const generatedSchema = this.generator.generateFromSchema(
-                    this.schema,
-                );
-                const generatedFromFactory = this.factory(
-                    this as unknown as Factory<z.output<T>>,
-                    i,
-                );
-
-                const result = this.schema.parse({
-                    ...(generatedSchema as Record<string, unknown>),
-                    ...(generatedFromFactory as Record<string, unknown>),
-                });
-                results.push(result);
-            }
-        }
-
-        return results;
-    };
-
-    /**
-     * Builds a single instance that conforms to the Zod schema.
-     *
-     * The build process:
-     * 1. Generates data from the Zod schema constraints
-     * 2. Applies any factory function customizations
-     * 3. Applies the provided overrides
-     * 4. Validates the result against the schema
-     *
-     * @param kwargs - Optional property overrides
-     * @param options - Optional build options including fixture generation
-     * @returns A generated instance conforming to the schema
+     * Registers a named trait that can be activated per build.
      *
-     * @example
-     * ```typescript
-     * const user = factory.build({
-     *   role: 'admin',
-     *   isActive: true
-     * });
-     * ```
-     *
-     * @example
-     * With fixture generation:
-     * ```typescript
-     * const user = factory.build(undefined, { generateFixture: 'user-fixture' });
-     * ```
+     * @param name - The name used to activate the trait
+     * @param definition - A partial schema, or a function returning one
+     * @returns The factory instance, typed with the new trait name, for method chaining
      */
-    build = (
-        kwargs?: Partial<z.output<T>>,
-        options?: Partial<O>,
-    ): z.output<T> => {
-        if (isAsyncFunction(this.factory)) {
-            throw new ConfigurationError(
-                'Async factory function detected. Use buildAsync() method to build instances with async factories.',
-            );
-        }
-
-        const hasAsyncHooks =
-            this.beforeBuildHooks.some((hook) => isAsyncFunction(hook)) ||
-            this.afterBuildHooks.some((hook) => isAsyncFunction(hook));
-
-        if (hasAsyncHooks) {
-            throw new ConfigurationError(
-                'Async hooks detected. Use buildAsync() method to build instances with async hooks.',
-            );
-        }
-
-        // Check if fixture generation is requested
-        const mergedOptions = {
-            ...this.options,
-            ...options,
-        } as FactoryOptions & O;
-        if (mergedOptions.generateFixture && mergedOptions.fixtures) {
-            const fixturePath =
-                typeof mergedOptions.generateFixture === 'string'
-                    ? mergedOptions.generateFixture
-                    : this.getDefaultFixturePath();
-
-            return this.buildWithFixture(fixturePath, kwargs, mergedOptions);
-        }
-
-        // Normal build without fixtures
-        let params = kwargs ?? {};
-
-        for (const hook of this.beforeBuildHooks) {
-            params = hook(params) as Partial<z.output<T>>;
-        }
-
-        const generatedSchema = this.generator.generateFromSchema(this.schema);
-        const generatedFromFactory = this.factory(
-            this as unknown as Factory<z.output<T>>,
-            0,
-        );
-
-        const merged =
-            Array.isArray(generatedSchema) ||
-            typeof generatedSchema !== 'object' ||
-            generatedSchema === null
-                ? generatedSchema
-                : merge(
-                      generatedSchema as Record<string, unknown>,
-                      generatedFromFactory as Record<string, unknown>,
-                      params as Record<string, unknown>,
-                  );
-
-        let result = this.schema.parse(merged);
-
-        for (const hook of this.afterBuildHooks) {
-            result = hook(result) as z.output<T>;
-        }
-
-        return result;
-    };
+    trait<K extends string>(
+        name: K,
+        definition: TraitDefinition<z.output<T>>,
+    ): ZodFactory<T, O, K | N> {
+        super.trait(name, definition);
+        return this as unknown as ZodFactory<T, O, K | N>;
+    }
 
     /**
      * Register a custom handler for a specific Zod type.
@@ -1985,41 +1847,14 @@ export class ZodFactory<
     }
 
     /**
-     * Override buildWithFixture to handle Zod-specific generation
+     * Fills in the fields that the factory function, traits and kwargs leave out with values
+     * generated from the schema constraints, and validates the instance against the schema.
      *
-     * @param filePath The fixture file path
-     * @param kwargs Optional property overrides
-     * @param _options Build options
-     * @returns The generated Zod object
+     * @param values The merged values of the instance
+     * @returns The instance conforming to the schema
      */
-    protected buildWithFixture(
-        filePath: string,
-        kwargs?: Partial<z.output<T>>,
-        _options?: Partial<O>,
-    ): z.output<T> {
-        const fixtureConfig = this.getFixtureConfig();
-        const parsedPath = this.parseFixturePath(filePath, fixtureConfig);
-
-        // Check if fixture already exists
-        const existing = this.readFixture(parsedPath.fullPath);
-        if (existing) {
-            this.validateFixture(existing, fixtureConfig);
-            return existing.data as z.output<T>;
-        }
-
-        // Generate new data using Zod schema
-        let params = kwargs ?? {};
-
-        for (const hook of this.beforeBuildHooks) {
-            params = hook(params) as Partial<z.output<T>>;
-        }
-
+    protected completeInstance(values: z.output<T>): z.output<T> {
         const generatedSchema = this.generator.generateFromSchema(this.schema);
-        const generatedFromFactory = this.factory(
-            this as unknown as Factory<z.output<T>>,
-            0,
-        );
-
         const merged =
             Array.isArray(generatedSchema) ||
             typeof generatedSchema !== 'object' ||
@@ -2027,62 +1862,59 @@ export class ZodFactory<
                 ? generatedSchema
                 : merge(
                       generatedSchema as Record<string, unknown>,
-                      generatedFromFactory as Record<string, unknown>,
-                      params as Record<string, unknown>,
+                      values as Record<string, unknown>,
                   );
 
-        let result = this.schema.parse(merged);
-
-        for (const hook of this.afterBuildHooks) {
-            result = hook(result) as z.output<T>;
-        }
-
-        // Write fixture
-        this.writeFixture(parsedPath, result, fixtureConfig);
+        return this.schema.parse(merged);
+    }
 
-        return result;
+    /**
+     * Creates a bare instance with the same schema, factory function and type handlers.
+     *
+     * @param options The options for the new instance
+     * @returns A new ZodFactory
+     */
+    protected createInstance(options: Partial<O>): this {
+        const FactoryClass = this.constructor as new (
+            schema: T,
+            factory: PartialFactoryFunction<z.output<T>>,
+            options: Partial<O>,
+        ) => this;
+        const instance = new FactoryClass(this.schema, this.factory, options);
+        this.generator.copyTypeHandlersTo(instance.generator);
+        return instance;
     }
 
     /**
-     * Override signature calculation to include Zod schema information
+     * Adds the schema fields and their types to the signature inputs
      *
      * @param config Fixture configuration
-     * @returns SHA-256 hash of the factory signature
+     * @param inputs Arguments of the call that are part of the signature, e.g. the size of a batch
+     * @returns The signature inputs as JSON-compatible data
      */
-    protected calculateSignature(
+    protected describeSignature(
         config: Required<import('./index').FixtureConfiguration>,
-    ): string {
-        if (!createHash) {
-            throw new FixtureError(
-                'Fixture functionality is not available in browser environments',
-            );
-        }
-        const baseSignature = super.calculateSignature(config);
-        const hash = createHash('sha256');
-
-        // Start with base signature
-        hash.update(baseSignature);
+        inputs?: Record<string, unknown>,
+    ): Record<string, unknown> {
+        const signatureInputs = super.describeSignature(config, inputs);
 
-        // Add schema shape information
+        // Add the type of each schema field
         try {
             const shape = this.schema.shape as Record<string, ZodType>;
             if (isObject(shape)) {
-                const schemaKeys = Object.keys(shape).sort();
-                hash.update(JSON.stringify(schemaKeys));
-
-                // Add type information for each field
-                for (const key of schemaKeys) {
-                    const fieldSchema = shape[key];
-                    const typeName = getSchemaTypeName(fieldSchema);
-                    if (typeName) {
-                        hash.update(`${key}:${typeName}`);
-                    }
-                }
+                signatureInputs.fields = Object.fromEntries(
+                    Object.keys(shape)
+                        .sort()
+                        .map((key) => [
+                            key,
+                            getSchemaTypeName(shape[key]) ?? null,
+                        ]),
+                );
             }
         } catch {
-            // If we can't extract schema information, just use base signature
+            // If we can't extract schema information, just use the base inputs
         }
 
-        return hash.digest('hex');
+        return signatureInputs;
     }
 }